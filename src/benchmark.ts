@@ -0,0 +1,210 @@
+/**
+ * Model benchmarks: runs a fixed prompt set against each pool model through
+ * Ollama's streaming /api/generate and records load time, time to first
+ * token, and prompt/eval throughput (from prompt_eval_count/duration and
+ * eval_count/duration). The latest result per model is persisted to
+ * benchmarks.json in the state directory so it survives restarts and can
+ * serve as a routing prior.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { PluginConfig } from "./config.js";
+import type { OllamaCluster } from "./ollama-cluster.js";
+import type { GenerateTiming } from "./ollama-client.js";
+
+export type BenchmarkResult = {
+  model: string;
+  host: string;
+  /** Unloaded before the first prompt, so loadMs is a cold load */
+  cold: boolean;
+  /** load_duration of the first prompt */
+  loadMs: number;
+  /** Mean time to first token, excluding the first prompt's load */
+  ttftMs: number;
+  promptTokensPerSec: number;
+  evalTokensPerSec: number;
+  prompts: number;
+  timestamp: number;
+  error?: string;
+};
+
+export type BenchmarkRun = {
+  status: "running" | "done";
+  models: string[];
+  /** Model currently being measured */
+  current?: string;
+  startedAt: number;
+  finishedAt?: number;
+  results: BenchmarkResult[];
+};
+
+export type BenchmarkOptions = {
+  models?: string[];
+  host?: string;
+  cold?: boolean;
+};
+
+/**
+ * Standard prompt set: short chat, code generation, and multi-step reasoning.
+ */
+const BENCH_PROMPTS = [
+  "In two sentences, explain what a hash map is.",
+  "Write a TypeScript function that debounces another function, with a short doc comment.",
+  "A train leaves at 14:05 and arrives at 17:50, with a 20 minute stop. How long was it moving? Think step by step.",
+];
+
+const BENCH_NUM_PREDICT = 128;
+const RESULTS_FILE = "benchmarks.json";
+
+export class BenchmarkRunner {
+  private cluster: OllamaCluster;
+  private config: PluginConfig;
+  private dir: string;
+  private results = new Map<string, BenchmarkResult>();
+  private run: BenchmarkRun | undefined;
+  private pending: Promise<BenchmarkRun> | undefined;
+
+  constructor(cluster: OllamaCluster, config: PluginConfig, dir: string) {
+    this.cluster = cluster;
+    this.config = config;
+    this.dir = dir;
+  }
+
+  /**
+   * Load saved results from the state directory.
+   */
+  async load(): Promise<void> {
+    let text: string;
+    try {
+      text = await readFile(join(this.dir, RESULTS_FILE), "utf-8");
+    } catch {
+      return;
+    }
+    const saved = JSON.parse(text) as BenchmarkResult[];
+    for (const result of saved) this.results.set(result.model, result);
+  }
+
+  /**
+   * Latest result per model, most recent first.
+   */
+  list(): BenchmarkResult[] {
+    return [...this.results.values()]
+      .map((r) => ({ ...r }))
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Latest successful result for a model.
+   */
+  get(modelName: string): BenchmarkResult | undefined {
+    const result = this.results.get(modelName.replace(/^ollama\//, ""));
+    return result && !result.error ? { ...result } : undefined;
+  }
+
+  /**
+   * The current or most recent run.
+   */
+  current(): BenchmarkRun | undefined {
+    return this.run ? { ...this.run, results: this.run.results.map((r) => ({ ...r })) } : undefined;
+  }
+
+  /**
+   * Start benchmarking the given pool models (default: every pulled pool
+   * model). Only one run happens at a time; while one is running, it is
+   * returned instead of starting another.
+   */
+  start(opts: BenchmarkOptions = {}): { run: BenchmarkRun; done: Promise<BenchmarkRun> } {
+    if (this.run?.status === "running" && this.pending) {
+      return { run: this.current()!, done: this.pending };
+    }
+
+    const models = (opts.models ?? this.config.models.map((m) => m.name))
+      .map((name) => name.replace(/^ollama\//, ""))
+      .filter((name) => this.cluster.getModelStatus(name).pulled);
+    if (models.length === 0) {
+      throw new Error("No pulled models to benchmark");
+    }
+
+    const run: BenchmarkRun = { status: "running", models, startedAt: Date.now(), results: [] };
+    this.run = run;
+
+    this.pending = (async () => {
+      for (const model of models) {
+        run.current = model;
+        const result = await this.benchmarkModel(model, opts.host, opts.cold ?? false);
+        run.results.push(result);
+        // A failed run doesn't replace an earlier good result
+        if (!result.error || !this.get(model)) this.results.set(model, result);
+      }
+      run.current = undefined;
+      run.status = "done";
+      run.finishedAt = Date.now();
+      await this.save().catch(() => undefined);
+      return this.current()!;
+    })();
+
+    return { run: this.current()!, done: this.pending };
+  }
+
+  private async benchmarkModel(
+    model: string,
+    hostName: string | undefined,
+    cold: boolean
+  ): Promise<BenchmarkResult> {
+    const host = hostName ?? this.cluster.pickHost(model)?.name;
+    const client = host ? this.cluster.getClient(host) : undefined;
+    const base = { model, host: host ?? "-", cold, timestamp: Date.now() };
+    const failed = (error: string): BenchmarkResult => ({
+      ...base,
+      loadMs: 0,
+      ttftMs: 0,
+      promptTokensPerSec: 0,
+      evalTokensPerSec: 0,
+      prompts: 0,
+      error,
+    });
+    if (!client) return failed("no reachable host has this model");
+
+    try {
+      if (cold) await client.unloadModel(model);
+      const timings: GenerateTiming[] = [];
+      for (const prompt of BENCH_PROMPTS) {
+        timings.push(
+          await client.timedGenerate(model, prompt, {
+            numPredict: BENCH_NUM_PREDICT,
+            keepAliveMinutes: this.config.keepAliveMinutes,
+          })
+        );
+      }
+
+      const sum = (pick: (t: GenerateTiming) => number) =>
+        timings.reduce((total, t) => total + pick(t), 0);
+      const perSec = (tokens: number, ms: number) => (ms > 0 ? (tokens / ms) * 1000 : 0);
+      return {
+        ...base,
+        loadMs: Math.round(timings[0].loadMs),
+        ttftMs: Math.round(sum((t) => Math.max(0, t.ttftMs - t.loadMs)) / timings.length),
+        promptTokensPerSec: round1(perSec(sum((t) => t.promptTokens), sum((t) => t.promptEvalMs))),
+        evalTokensPerSec: round1(perSec(sum((t) => t.evalTokens), sum((t) => t.evalMs))),
+        prompts: timings.length,
+      };
+    } catch (err) {
+      return failed(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  /**
+   * Write results atomically (temp file + rename).
+   */
+  private async save(): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const path = join(this.dir, RESULTS_FILE);
+    await writeFile(`${path}.tmp`, JSON.stringify(this.list(), null, 2), "utf-8");
+    await rename(`${path}.tmp`, path);
+  }
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
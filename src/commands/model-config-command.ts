@@ -0,0 +1,98 @@
+/**
+ * /model-config chat command.
+ * Shows and changes plugin settings at runtime.
+ *
+ * Subcommands:
+ * - get [key...]: show settings (default: all); runtime overrides are marked
+ * - set key=value [key=value...]: validate and apply (values are JSON, or plain strings)
+ * - reset key [key...]: drop runtime overrides and return to the registered config
+ */
+
+import type { ConfigSetResult, RuntimeConfig } from "../config-store.js";
+
+type CommandContext = {
+  args?: string[];
+  body?: string;
+  channel?: string;
+  channelId?: string;
+};
+
+export function createModelConfigCommand(runtimeConfig: RuntimeConfig) {
+  return {
+    name: "model-config",
+    description: "Show or change model load optimizer settings at runtime",
+    acceptsArgs: true,
+
+    handler: async (ctx: CommandContext): Promise<{ text: string }> => {
+      const args = (ctx.args ?? (ctx.body ? ctx.body.split(/\s+/) : [])).filter(Boolean);
+      const sub = args[0] ?? "get";
+
+      if (sub === "set") {
+        const patch: Record<string, unknown> = {};
+        for (const arg of args.slice(1)) {
+          const eq = arg.indexOf("=");
+          if (eq <= 0) {
+            return { text: "Usage: /model-config set key=value [key=value...]" };
+          }
+          patch[arg.slice(0, eq)] = parseValue(arg.slice(eq + 1));
+        }
+        if (Object.keys(patch).length === 0) {
+          return { text: "Usage: /model-config set key=value [key=value...]" };
+        }
+        return { text: formatResult(await runtimeConfig.set(patch)) };
+      }
+
+      if (sub === "reset") {
+        const keys = args.slice(1);
+        if (keys.length === 0) {
+          return { text: "Usage: /model-config reset key [key...]" };
+        }
+        return {
+          text: formatResult(await runtimeConfig.set(Object.fromEntries(keys.map((k) => [k, null])))),
+        };
+      }
+
+      if (sub !== "get") {
+        return { text: "Usage: /model-config [get [key...] | set key=value... | reset key...]" };
+      }
+
+      const { values, overrides } = runtimeConfig.get(args.slice(1));
+      const keys = Object.keys(values);
+      if (keys.length === 0) {
+        return { text: `Unknown setting: ${args.slice(1).join(", ")}` };
+      }
+      const lines = ["## Model Load Optimizer Config", ""];
+      for (const key of keys) {
+        const marker = key in overrides ? " *(runtime)*" : "";
+        lines.push(`- **${key}:** \`${JSON.stringify(values[key])}\`${marker}`);
+      }
+      return { text: lines.join("\n") };
+    },
+  };
+}
+
+/**
+ * Parse a command-line value as JSON (numbers, booleans, arrays, objects),
+ * falling back to the raw string.
+ */
+function parseValue(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function formatResult(result: ConfigSetResult): string {
+  if (!result.success) {
+    return ["Config not changed:", ...result.errors.map((e) => `- **${e.field}** ${e.message}`)].join(
+      "\n"
+    );
+  }
+  if (result.changed.length === 0) return "Config unchanged.";
+  const lines = [`Applied: ${result.changed.join(", ")}`];
+  if (result.restartRequired.length > 0) {
+    lines.push(`Takes effect after a gateway restart: ${result.restartRequired.join(", ")}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,55 @@
+/**
+ * /model-doctor chat command.
+ * Runs the routing diagnostics and lists each check with its remediation.
+ */
+
+import type { PluginConfig } from "../config.js";
+import type { ModelRouter } from "../router.js";
+import { runDiagnostics, type DoctorStatus } from "../doctor.js";
+
+type CommandContext = {
+  args?: string[];
+  body?: string;
+  channel?: string;
+  channelId?: string;
+};
+
+const STATUS_LABEL: Record<DoctorStatus, string> = {
+  pass: "PASS",
+  warn: "WARN",
+  fail: "FAIL",
+};
+
+export function createModelDoctorCommand(router: ModelRouter, config: PluginConfig) {
+  return {
+    name: "model-doctor",
+    description: "Diagnose model routing setup (GPU monitoring, Ollama hosts, pulled models, thresholds)",
+    acceptsArgs: false,
+
+    handler: async (_ctx: CommandContext): Promise<{ text: string }> => {
+      const report = await runDiagnostics(router, config);
+      const lines: string[] = [];
+
+      lines.push("## Model Load Optimizer Doctor");
+      lines.push("");
+      lines.push(
+        `**Result:** ${STATUS_LABEL[report.status]} (${report.summary.pass} pass, ${report.summary.warn} warn, ${report.summary.fail} fail)`
+      );
+      lines.push("");
+
+      // Problems first, so they're visible without scrolling
+      const order: DoctorStatus[] = ["fail", "warn", "pass"];
+      const checks = [...report.checks].sort(
+        (a, b) => order.indexOf(a.status) - order.indexOf(b.status)
+      );
+      for (const check of checks) {
+        lines.push(`- **${STATUS_LABEL[check.status]}** ${check.title}: ${check.detail}`);
+        if (check.remediation && check.status !== "pass") {
+          lines.push(`  - Fix: ${check.remediation}`);
+        }
+      }
+
+      return { text: lines.join("\n") };
+    },
+  };
+}
@@ -1,11 +1,26 @@
 /**
  * /model-status chat command.
  * Shows current model routing status, GPU metrics, and loaded models.
+ *
+ * Subcommands:
+ * - refresh (r): re-poll Ollama and GPU metrics first
+ * - pull <model> [host]: start pulling a model
+ * - bench [model...] [--cold]: benchmark pool models in the background
+ * - explain "<prompt>": dry-run routing for a prompt and show the full trace
  */
 
-import type { PluginConfig } from "../config.js";
+import type { GpuAggregation, PluginConfig } from "../config.js";
 import type { ModelRouter } from "../router.js";
-import type { OllamaClient } from "../ollama-client.js";
+import type { PullManager } from "../pull-manager.js";
+import type { EvictionManager } from "../eviction.js";
+import type { SessionAffinity } from "../session-affinity.js";
+import type { BenchmarkRunner } from "../benchmark.js";
+import type { WarmScheduler } from "../scheduler.js";
+import type { VramFitPrediction } from "../vram-fit.js";
+import type { LatencyStats } from "../latency-stats.js";
+import { defaultComplexityScorer } from "../complexity.js";
+import { formatTrace } from "../route-trace.js";
+import { describeSystemPressure } from "../system-metrics.js";
 
 type CommandContext = {
   args?: string[];
@@ -16,8 +31,12 @@ type CommandContext = {
 
 export function createModelStatusCommand(
   router: ModelRouter,
-  client: OllamaClient,
-  config: PluginConfig
+  config: PluginConfig,
+  pulls: PullManager,
+  eviction: EvictionManager,
+  sessions: SessionAffinity,
+  benchmarks: BenchmarkRunner,
+  scheduler: WarmScheduler
 ) {
   return {
     name: "model-status",
@@ -31,8 +50,62 @@ export function createModelStatusCommand(
         await router.refreshHealth();
       }
 
+      if (args[0] === "pull") {
+        const model = args[1]?.replace(/^ollama\//, "");
+        if (!model) {
+          return { text: "Usage: /model-status pull <model> [host]" };
+        }
+        try {
+          const { job } = pulls.start(model, args[2]);
+          return {
+            text: `Pulling **${job.model}** on ${job.host}. Progress: /model-status or the dashboard.`,
+          };
+        } catch (err) {
+          return { text: `Cannot pull ${model}: ${err instanceof Error ? err.message : err}` };
+        }
+      }
+
+      if (args[0] === "bench") {
+        const rest = args.slice(1).filter(Boolean);
+        const models = rest.filter((a) => a !== "--cold");
+        try {
+          const { run } = benchmarks.start({
+            models: models.length > 0 ? models : undefined,
+            cold: rest.includes("--cold"),
+          });
+          return {
+            text: `Benchmarking ${run.models.join(", ")}${run.current ? ` (now: ${run.current})` : ""}. Results: /model-status or the dashboard.`,
+          };
+        } catch (err) {
+          return { text: `Cannot benchmark: ${err instanceof Error ? err.message : err}` };
+        }
+      }
+
+      if (args[0] === "explain") {
+        const raw = ctx.args ? args.slice(1).join(" ") : (ctx.body ?? "").replace(/^\s*explain\b/, "");
+        const prompt = raw.trim().replace(/^(["'])([\s\S]*)\1$/, "$2");
+        if (!prompt) {
+          return { text: 'Usage: /model-status explain "<prompt>"' };
+        }
+        const decision = await router.selectModel(
+          {
+            messageLength: prompt.length,
+            complexity: defaultComplexityScorer({ prompt }),
+          },
+          { dryRun: true, explain: true }
+        );
+        const lines = [
+          "## Route Explanation (dry run)",
+          "",
+          `**Decision:** ${decision.model} (${decision.source}${decision.host ? ` @ ${decision.host}` : ""})`,
+          `**Reason:** ${decision.reason}`,
+          "",
+          ...(decision.trace ? formatTrace(decision.trace) : []),
+        ];
+        return { text: lines.join("\n") };
+      }
+
       const state = router.getState();
-      const health = client.health;
       const lines: string[] = [];
 
       // Header
@@ -40,16 +113,38 @@ export function createModelStatusCommand(
       lines.push("");
 
       // Ollama status
-      if (state.ollamaReachable) {
-        lines.push(`**Ollama:** Online (v${health.version ?? "?"})`);
-        lines.push(
-          `**Endpoint:** ${config.ollamaHost}`
-        );
-      } else {
-        lines.push("**Ollama:** OFFLINE");
-        lines.push(
-          `**Endpoint:** ${config.ollamaHost} (unreachable)`
-        );
+      lines.push(`**Ollama:** ${state.ollamaReachable ? "Online" : "OFFLINE"}`);
+      for (const host of state.hosts) {
+        const health = host.health;
+        const breaker =
+          host.warmBreaker.state !== "closed" ? `, warm-up breaker ${host.warmBreaker.state}` : "";
+        if (host.reachable) {
+          const label = health.state === "healthy" ? "Online" : "DEGRADED";
+          const error = health.state === "degraded" && health.lastError ? ` (${health.lastError})` : "";
+          lines.push(
+            `- **${host.name}:** ${label} (v${host.version ?? "?"}) at ${host.url} - ${host.loadedModels.length} loaded, ${(host.spareCapacity * 100).toFixed(0)}% spare${error}${breaker}`
+          );
+        } else if (health.state === "recovering") {
+          lines.push(
+            `- **${host.name}:** RECOVERING at ${host.url} (${health.consecutiveSuccesses} good probe(s))${breaker}`
+          );
+        } else {
+          const retry =
+            health.nextProbeAt > 0
+              ? `, next probe in ${Math.max(0, Math.round((health.nextProbeAt - Date.now()) / 1000))}s`
+              : "";
+          lines.push(
+            `- **${host.name}:** DOWN at ${host.url} (${health.lastError ?? "unreachable"}${retry})`
+          );
+        }
+      }
+      const transitions = state.healthTransitions.slice(0, 3);
+      if (transitions.length > 0) {
+        lines.push("Recent health changes:");
+        for (const t of transitions) {
+          const ago = Math.round((Date.now() - t.timestamp) / 1000);
+          lines.push(`- ${t.host}: ${t.from} -> ${t.to} ${ago}s ago (${t.reason})`);
+        }
       }
       lines.push("");
 
@@ -62,8 +157,10 @@ export function createModelStatusCommand(
         const bar = formatBar(
           state.vramUsage.usedMB / state.vramUsage.totalMB
         );
+        const combined =
+          state.gpus.length > 1 ? ` - ${describeAggregation(config.gpuAggregation, config.gpuDevice)}` : "";
         lines.push(
-          `**GPU VRAM:** ${state.vramUsage.usedMB}MB / ${state.vramUsage.totalMB}MB (${pct}%) ${bar}`
+          `**GPU VRAM:** ${state.vramUsage.usedMB}MB / ${state.vramUsage.totalMB}MB (${pct}%) ${bar}${combined}`
         );
       }
       if (state.gpuUtilization !== null) {
@@ -71,24 +168,166 @@ export function createModelStatusCommand(
           `**GPU Compute:** ${state.gpuUtilization}% ${formatBar(state.gpuUtilization / 100)}`
         );
       }
+      const sampleAge = Date.now() - state.gpuSampledAt;
+      if (state.gpuSampledAt > 0 && sampleAge > config.healthCheckIntervalSec * 1000 * 2) {
+        lines.push(`**GPU metrics stale:** last sampled ${Math.round(sampleAge / 1000)}s ago`);
+      }
+
+      // Host RAM / CPU, which the CPU sidecar depends on
+      const system = state.system;
+      if (system) {
+        if (system.memAvailableMB !== null) {
+          const ramRatio = system.memTotalMB > 0 ? 1 - system.memAvailableMB / system.memTotalMB : 0;
+          lines.push(
+            `**RAM:** ${system.memTotalMB - system.memAvailableMB}MB / ${system.memTotalMB}MB (${(ramRatio * 100).toFixed(1)}%) ${formatBar(ramRatio)}`
+          );
+        } else {
+          lines.push(`**RAM:** ${system.memTotalMB}MB (usage unknown)`);
+        }
+        if (system.swapTotalMB) {
+          const swapRatio = (system.swapUsedMB ?? 0) / system.swapTotalMB;
+          lines.push(
+            `**Swap:** ${system.swapUsedMB}MB / ${system.swapTotalMB}MB (${(swapRatio * 100).toFixed(1)}%) ${formatBar(swapRatio)}`
+          );
+        }
+        const cpu =
+          system.cpuUtilization !== null
+            ? `${system.cpuUtilization}% ${formatBar(system.cpuUtilization / 100)}, `
+            : "";
+        lines.push(
+          `**CPU:** ${cpu}load ${system.loadAvg.map((l) => l.toFixed(2)).join(" / ")} on ${system.cpuCount} cores`
+        );
+        const pressure = describeSystemPressure(state.systemLoad, config);
+        if (pressure) {
+          lines.push(`**Host under pressure:** ${pressure} - CPU sidecar avoided`);
+        }
+      }
+      if (state.gpus.length > 1) {
+        for (const gpu of state.gpus) {
+          const name = [gpu.name, gpu.uuid].filter(Boolean).join(", ");
+          const label = `GPU ${gpu.index}${name ? ` (${name})` : ""}`;
+          if (gpu.vramUsedMB === null || gpu.vramTotalMB === null || gpu.vramTotalMB === 0) {
+            lines.push(`- ${label}: no VRAM reading`);
+            continue;
+          }
+          const ratio = gpu.vramUsedMB / gpu.vramTotalMB;
+          const compute = gpu.utilization !== null ? `, ${gpu.utilization}% compute` : "";
+          const over = ratio >= config.gpuMemoryThreshold ? " OVER THRESHOLD" : "";
+          lines.push(
+            `- ${label}: ${gpu.vramUsedMB}MB / ${gpu.vramTotalMB}MB (${(ratio * 100).toFixed(1)}%) ${formatBar(ratio)}${compute}${over}`
+          );
+        }
+      }
       lines.push("");
 
       // Model status
       lines.push("### Models");
       lines.push("");
-      lines.push(formatModelLine("Primary", config.primaryModel, state.primaryStatus));
-      lines.push(formatModelLine("Sidecar", config.sidecarModel, state.sidecarStatus));
+      for (const tier of ["primary", "sidecar"] as const) {
+        for (const model of state.models
+          .filter((m) => m.tier === tier)
+          .sort((a, b) => a.priority - b.priority)) {
+          const hosts = model.pulledOn.length > 0 ? ` {${model.pulledOn.join(", ")}}` : "";
+          lines.push(formatModelLine(`${capitalize(tier)} (${model.role})`, model.name, model) + hosts);
+        }
+      }
       if (config.fallbackModel) {
         lines.push(`- **Fallback (remote):** ${config.fallbackModel}`);
       }
       lines.push("");
 
+      // Model pulls
+      const jobs = pulls.list();
+      if (jobs.length > 0) {
+        lines.push("### Pulls");
+        for (const job of jobs) {
+          const detail =
+            job.status === "pulling"
+              ? `${job.percent.toFixed(1)}% ${formatBar(job.percent / 100)} ${formatBytes(job.completedBytes)} / ${formatBytes(job.totalBytes)} (${job.statusText})`
+              : job.status === "failed"
+                ? `FAILED: ${job.error}`
+                : "done";
+          lines.push(`- ${job.model} on ${job.host}: ${detail}`);
+        }
+        lines.push("");
+      }
+
+      // Recent evictions
+      const evictions = eviction.recent().slice(0, 5);
+      if (evictions.length > 0) {
+        lines.push("### Recent Evictions");
+        for (const e of evictions) {
+          const ago = Math.round((Date.now() - e.timestamp) / 1000);
+          const mb = (e.vramBytes / 1024 / 1024).toFixed(0);
+          lines.push(
+            `- ${e.model} on ${e.host} (${mb}MB) ${ago}s ago - ${e.success ? e.reason : "FAILED"}`
+          );
+        }
+        lines.push("");
+      }
+
+      // Scheduled warm-ups
+      const upcoming = scheduler.upcoming();
+      if (upcoming.length > 0 || scheduler.errors.length > 0) {
+        lines.push("### Schedule");
+        for (const next of upcoming) {
+          const host = next.host ? ` on ${next.host}` : "";
+          lines.push(
+            `- ${new Date(next.at).toLocaleString()}: ${next.action} ${next.models.join(", ")}${host} (${next.schedule})`
+          );
+        }
+        for (const invalid of scheduler.errors) {
+          lines.push(`- INVALID ${invalid.schedule}: ${invalid.error}`);
+        }
+        lines.push("");
+      }
+
+      // Benchmarks
+      const benchRun = benchmarks.current();
+      const benchResults = benchmarks.list();
+      if (benchRun?.status === "running" || benchResults.length > 0) {
+        lines.push("### Benchmarks");
+        if (benchRun?.status === "running") {
+          lines.push(
+            `- Running: ${benchRun.results.length}/${benchRun.models.length} done${benchRun.current ? `, measuring ${benchRun.current}` : ""}`
+          );
+        }
+        for (const r of benchResults) {
+          if (r.error) {
+            lines.push(`- ${r.model} on ${r.host}: FAILED (${r.error})`);
+            continue;
+          }
+          lines.push(
+            `- ${r.model} on ${r.host}: load ${formatSeconds(r.loadMs)}${r.cold ? " (cold)" : ""}, TTFT ${r.ttftMs}ms, prompt ${r.promptTokensPerSec} tok/s, eval ${r.evalTokensPerSec} tok/s`
+          );
+        }
+        lines.push("");
+      }
+
+      // Sticky sessions
+      const active = sessions.list();
+      if (config.sessionStickiness && active.length > 0) {
+        lines.push(`### Sessions (${active.length} active)`);
+        for (const session of active.slice(0, 5)) {
+          const switched = session.lastSwitchReason
+            ? `, switched ${session.switches}x (last: ${session.lastSwitchReason})`
+            : "";
+          lines.push(
+            `- ${session.sessionKey}: ${session.model} for ${session.turns} turn(s)${switched}`
+          );
+        }
+        lines.push("");
+      }
+
       // Routing stats
       lines.push("### Routing Stats");
       lines.push(`- Total decisions: ${state.decisionsCount}`);
-      lines.push(`- Primary selections: ${state.primarySelections}`);
-      lines.push(`- Sidecar selections: ${state.sidecarSelections}`);
-      lines.push(`- Fallback selections: ${state.fallbackSelections}`);
+      lines.push(`- Primary selections: ${state.selectionsBySource.primary}`);
+      lines.push(`- Sidecar selections: ${state.selectionsBySource.sidecar}`);
+      lines.push(`- Fallback selections: ${state.selectionsBySource.fallback}`);
+      for (const [model, count] of Object.entries(state.selectionsByModel)) {
+        lines.push(`  - ${model}: ${count}`);
+      }
       lines.push("");
 
       // Last decision
@@ -97,6 +336,14 @@ export function createModelStatusCommand(
         lines.push(`- Model: ${state.lastDecision.model}`);
         lines.push(`- Reason: ${state.lastDecision.reason}`);
         lines.push(`- Source: ${state.lastDecision.source}`);
+        if (state.lastDecision.host) {
+          lines.push(`- Host: ${state.lastDecision.host}`);
+        }
+        if (state.lastDecision.sessionSwitch) {
+          lines.push(
+            `- Session switch: from ${state.lastDecision.sessionSwitch.from} (${state.lastDecision.sessionSwitch.reason})`
+          );
+        }
         const ago = Math.round(
           (Date.now() - state.lastDecision.timestamp) / 1000
         );
@@ -110,7 +357,16 @@ export function createModelStatusCommand(
       lines.push(`- Preload: ${config.preloadOnStart ? "ON" : "OFF"}`);
       lines.push(`- Keep-alive: ${config.keepAliveMinutes}m`);
       lines.push(
-        `- GPU threshold: ${(config.gpuMemoryThreshold * 100).toFixed(0)}%`
+        `- Eviction: ${config.evictionEnabled ? "ON" : "OFF"}${config.pinnedModels.length > 0 ? ` (pinned: ${config.pinnedModels.join(", ")})` : ""}`
+      );
+      lines.push(
+        `- GPU threshold: ${(config.gpuMemoryThreshold * 100).toFixed(0)}% (${describeAggregation(config.gpuAggregation, config.gpuDevice)})`
+      );
+      lines.push(
+        `- Host pressure: RAM ${(config.ramPressureThreshold * 100).toFixed(0)}%, swap ${(config.swapPressureThreshold * 100).toFixed(0)}%, CPU ${(config.cpuPressureThreshold * 100).toFixed(0)}%`
+      );
+      lines.push(
+        `- Session stickiness: ${config.sessionStickiness ? `ON (TTL ${config.sessionTtlMin}m, +${(config.stickyLoadMargin * 100).toFixed(0)}% for ${config.stickySustainSec}s to move)` : "OFF"}`
       );
       lines.push(`- Health check: every ${config.healthCheckIntervalSec}s`);
 
@@ -122,7 +378,15 @@ export function createModelStatusCommand(
 function formatModelLine(
   label: string,
   name: string,
-  status: { pulled: boolean; loaded: boolean; vramBytes: number; parameterSize?: string }
+  status: {
+    pulled: boolean;
+    loaded: boolean;
+    vramBytes: number;
+    parameterSize?: string;
+    contextWindow?: number;
+    fit?: VramFitPrediction;
+    latency?: LatencyStats;
+  }
 ): string {
   const pullStatus = status.pulled ? "pulled" : "NOT PULLED";
   const loadStatus = status.loaded ? "LOADED" : "unloaded";
@@ -131,7 +395,40 @@ function formatModelLine(
       ? ` (${(status.vramBytes / 1024 / 1024).toFixed(0)}MB VRAM)`
       : "";
   const params = status.parameterSize ? ` [${status.parameterSize}]` : "";
-  return `- **${label}:** ${name} - ${pullStatus}, ${loadStatus}${vram}${params}`;
+  const ctx = status.contextWindow ? ` ctx ${status.contextWindow}` : "";
+  const fit = status.fit
+    ? ` - predicted ${(status.fit.predictedVramBytes / 1024 / 1024).toFixed(0)}MB VRAM, ${status.fit.placement}`
+    : "";
+  const latency = status.latency
+    ? ` - ${status.latency.runs} runs, EWMA ${formatSeconds(status.latency.ewmaMs)}, p50 ${formatSeconds(status.latency.p50Ms)}, p95 ${formatSeconds(status.latency.p95Ms)}, ${(status.latency.successRate * 100).toFixed(0)}% ok`
+    : "";
+  return `- **${label}:** ${name} - ${pullStatus}, ${loadStatus}${vram}${params}${ctx}${fit}${latency}`;
+}
+
+function describeAggregation(aggregation: GpuAggregation, device: number): string {
+  switch (aggregation) {
+    case "sum":
+      return "all GPUs combined";
+    case "any":
+      return "fullest GPU";
+    case "all":
+      return "emptiest GPU";
+    case "device":
+      return `GPU ${device}`;
+  }
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(2)}GB`;
+  return `${(bytes / 1024 / 1024).toFixed(0)}MB`;
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
 }
 
 function formatBar(ratio: number, width: number = 10): string {
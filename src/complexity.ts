@@ -0,0 +1,224 @@
+/**
+ * Request complexity scoring.
+ *
+ * Turns a prompt and its conversation history into a 0.0-1.0 complexity
+ * score plus the features behind it. The router compares the score with
+ * `complexityThreshold` to decide whether a request is simple enough for
+ * the CPU sidecar. Scorers are pluggable: anything matching ComplexityScorer
+ * can replace the default.
+ */
+
+export type ComplexityInput = {
+  prompt: string;
+  messages?: unknown[];
+};
+
+export type ComplexityFeatures = {
+  promptChars: number;
+  /** Rough token estimate (~4 chars/token) over prompt and history */
+  estimatedTokens: number;
+  /** Tokens that look like pasted logs / stack traces, counted separately */
+  logTokens: number;
+  codeBlocks: number;
+  reasoningKeywords: string[];
+  attachments: number;
+  toolCalls: number;
+  conversationDepth: number;
+};
+
+export type ComplexityScore = {
+  score: number;
+  features: ComplexityFeatures;
+  /** Human-readable drivers of the score, strongest first */
+  signals: string[];
+};
+
+export type ComplexityScorer = (input: ComplexityInput) => ComplexityScore;
+
+const CHARS_PER_TOKEN = 4;
+
+const REASONING_KEYWORDS = [
+  "refactor",
+  "architect",
+  "design",
+  "plan",
+  "step by step",
+  "analyze",
+  "analyse",
+  "debug",
+  "optimize",
+  "optimise",
+  "migrate",
+  "implement",
+  "prove",
+  "trade-off",
+  "tradeoff",
+  "compare",
+  "algorithm",
+  "root cause",
+  "explain why",
+  "whole",
+  "entire",
+  "across",
+];
+
+const LOG_LINE =
+  /^\s*(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}|\[\d{2}:\d{2}|\[?(TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL)\]?\b|at\s+[\w.$<>]+\s*\(|\s*File ".*", line \d+|Traceback|Caused by:)/i;
+
+/**
+ * Pull the text out of a message of unknown shape
+ * (string content, or an array of `{ type, text }` parts).
+ */
+function messageText(message: unknown): string {
+  if (typeof message === "string") return message;
+  if (!message || typeof message !== "object") return "";
+  const content = (message as Record<string, unknown>).content;
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((part) =>
+        part && typeof part === "object" && typeof (part as Record<string, unknown>).text === "string"
+          ? ((part as Record<string, unknown>).text as string)
+          : ""
+      )
+      .join("\n");
+  }
+  return "";
+}
+
+function countAttachments(message: unknown): number {
+  if (!message || typeof message !== "object") return 0;
+  const msg = message as Record<string, unknown>;
+  let count = 0;
+  for (const key of ["images", "attachments", "files"]) {
+    if (Array.isArray(msg[key])) count += (msg[key] as unknown[]).length;
+  }
+  if (Array.isArray(msg.content)) {
+    for (const part of msg.content) {
+      const type = part && typeof part === "object" ? (part as Record<string, unknown>).type : undefined;
+      if (type === "image" || type === "image_url" || type === "file" || type === "document") count++;
+    }
+  }
+  return count;
+}
+
+function countToolCalls(message: unknown): number {
+  if (!message || typeof message !== "object") return 0;
+  const msg = message as Record<string, unknown>;
+  let count = 0;
+  if (msg.role === "tool" || msg.role === "toolResult") count++;
+  if (Array.isArray(msg.tool_calls)) count += msg.tool_calls.length;
+  if (Array.isArray(msg.content)) {
+    for (const part of msg.content) {
+      const type = part && typeof part === "object" ? (part as Record<string, unknown>).type : undefined;
+      if (type === "tool_use" || type === "toolCall" || type === "tool_result") count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Split text into prose tokens and log-like tokens.
+ */
+function estimateTokens(text: string): { tokens: number; logTokens: number } {
+  let logChars = 0;
+  for (const line of text.split("\n")) {
+    if (LOG_LINE.test(line)) logChars += line.length + 1;
+  }
+  return {
+    tokens: Math.ceil(text.length / CHARS_PER_TOKEN),
+    logTokens: Math.ceil(logChars / CHARS_PER_TOKEN),
+  };
+}
+
+export function extractComplexityFeatures(input: ComplexityInput): ComplexityFeatures {
+  const prompt = input.prompt ?? "";
+  const messages = Array.isArray(input.messages) ? input.messages : [];
+  const history = messages.map(messageText).join("\n");
+
+  const promptTokens = estimateTokens(prompt);
+  const historyTokens = estimateTokens(history);
+  const lowerPrompt = prompt.toLowerCase();
+
+  return {
+    promptChars: prompt.length,
+    estimatedTokens: promptTokens.tokens + historyTokens.tokens,
+    logTokens: promptTokens.logTokens + historyTokens.logTokens,
+    codeBlocks: Math.floor((prompt.match(/```/g) ?? []).length / 2),
+    reasoningKeywords: REASONING_KEYWORDS.filter((k) => lowerPrompt.includes(k)),
+    attachments: messages.reduce<number>((n, m) => n + countAttachments(m), 0),
+    toolCalls: messages.reduce<number>((n, m) => n + countToolCalls(m), 0),
+    conversationDepth: messages.length,
+  };
+}
+
+/**
+ * Weighted sum of saturating feature contributions, clamped to 0.0-1.0.
+ * Log-like text counts at a tenth of its weight so a pasted log alone
+ * does not make a request "complex".
+ */
+export function scoreComplexityFeatures(features: ComplexityFeatures): ComplexityScore {
+  const effectiveTokens =
+    features.estimatedTokens - features.logTokens + features.logTokens * 0.1;
+
+  const contributions: { signal: string; value: number }[] = [
+    {
+      signal: `~${Math.round(effectiveTokens)} tokens`,
+      value: Math.min(effectiveTokens / 1000, 1) * 0.3,
+    },
+    {
+      signal: `${features.codeBlocks} code block(s)`,
+      value: Math.min(features.codeBlocks / 2, 1) * 0.2,
+    },
+    {
+      signal: `keywords: ${features.reasoningKeywords.join(", ")}`,
+      value: Math.min(features.reasoningKeywords.length / 2, 1) * 0.35,
+    },
+    {
+      signal: `${features.attachments} attachment(s)`,
+      value: features.attachments > 0 ? 0.15 : 0,
+    },
+    {
+      signal: `${features.toolCalls} tool call(s)`,
+      value: Math.min(features.toolCalls / 5, 1) * 0.2,
+    },
+    {
+      signal: `depth ${features.conversationDepth}`,
+      value: Math.min(features.conversationDepth / 10, 1) * 0.1,
+    },
+  ];
+
+  const score = Math.min(
+    contributions.reduce((sum, c) => sum + c.value, 0),
+    1
+  );
+  const signals = contributions
+    .filter((c) => c.value > 0)
+    .sort((a, b) => b.value - a.value)
+    .map((c) => c.signal);
+
+  return { score, features, signals };
+}
+
+export const defaultComplexityScorer: ComplexityScorer = (input) =>
+  scoreComplexityFeatures(extractComplexityFeatures(input));
+
+/**
+ * Score a request when only its message length and conversation depth are
+ * known (e.g. gateway callers that do not send the prompt).
+ */
+export function scoreFromLengths(
+  messageLength: number,
+  conversationDepth: number
+): ComplexityScore {
+  return scoreComplexityFeatures({
+    promptChars: messageLength,
+    estimatedTokens: Math.ceil(messageLength / CHARS_PER_TOKEN),
+    logTokens: 0,
+    codeBlocks: 0,
+    reasoningKeywords: [],
+    attachments: 0,
+    toolCalls: 0,
+    conversationDepth,
+  });
+}
@@ -0,0 +1,129 @@
+/**
+ * Validation against the plugin's configSchema (openclaw.plugin.json).
+ *
+ * Supports the subset of JSON Schema the manifest uses: type, enum,
+ * minimum/maximum, items, properties, required and additionalProperties.
+ * Every problem is reported with the path of the offending field.
+ */
+
+import { readFileSync } from "node:fs";
+
+export type SchemaNode = {
+  type?: "string" | "number" | "integer" | "boolean" | "array" | "object";
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  items?: SchemaNode;
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+  additionalProperties?: boolean;
+  default?: unknown;
+  label?: string;
+  help?: string;
+};
+
+export type ConfigFieldError = {
+  /** Dotted path, e.g. "models[1].tier" */
+  field: string;
+  message: string;
+};
+
+/**
+ * Read configSchema from the plugin manifest next to the package root
+ * (works from both src/ and dist/).
+ */
+export function loadConfigSchema(): SchemaNode {
+  const url = new URL("../openclaw.plugin.json", import.meta.url);
+  const manifest = JSON.parse(readFileSync(url, "utf-8")) as { configSchema?: SchemaNode };
+  if (!manifest.configSchema) {
+    throw new Error("openclaw.plugin.json has no configSchema");
+  }
+  return manifest.configSchema;
+}
+
+/**
+ * Check a value against a schema node. Returns every error found.
+ */
+export function validateConfig(value: unknown, schema: SchemaNode, path: string = ""): ConfigFieldError[] {
+  const field = path || "(root)";
+  const errors: ConfigFieldError[] = [];
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [{ field, message: `expected ${schema.type}, got ${describe(value)}` }];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({
+      field,
+      message: `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`,
+    });
+  }
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ field, message: `must be >= ${schema.minimum}, got ${value}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ field, message: `must be <= ${schema.maximum}, got ${value}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateConfig(item, schema.items!, `${path}[${index}]`));
+    });
+  }
+
+  if (isObject(value) && (schema.properties || schema.required)) {
+    const properties = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        errors.push({ field: joinPath(path, key), message: "is required" });
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const childSchema = properties[key];
+      if (!childSchema) {
+        if (schema.additionalProperties === false) {
+          errors.push({ field: joinPath(path, key), message: "is not a known setting" });
+        }
+        continue;
+      }
+      if (child === undefined) continue;
+      errors.push(...validateConfig(child, childSchema, joinPath(path, key)));
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: unknown, type: NonNullable<SchemaNode["type"]>): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isObject(value);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") return `string ${JSON.stringify(value)}`;
+  if (typeof value === "number" || typeof value === "boolean") return `${typeof value} ${value}`;
+  return typeof value;
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
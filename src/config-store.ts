@@ -0,0 +1,233 @@
+/**
+ * Runtime config: get and set plugin settings while the gateway is running.
+ *
+ * Changes are validated against the configSchema, layered over the config the
+ * plugin was registered with, and persisted to config-overrides.json in the
+ * state directory so they survive restarts. The resolved PluginConfig object
+ * is updated in place, so everything holding a reference to it sees the new
+ * values; listeners apply the settings that are cached elsewhere (health
+ * interval, health policy, warm-up breaker).
+ */
+
+import { readFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { resolvePluginConfig, type PluginConfig } from "./config.js";
+import { validateConfig, type ConfigFieldError, type SchemaNode } from "./config-schema.js";
+import { parseRoutingPolicy } from "./routing-policy.js";
+
+export type ConfigSetResult =
+  | {
+      success: true;
+      /** Settings whose resolved value changed */
+      changed: string[];
+      /** Changed settings that only take effect after a gateway restart */
+      restartRequired: string[];
+    }
+  | { success: false; errors: ConfigFieldError[] };
+
+export type ConfigPreviewResult =
+  | { success: true; config: PluginConfig }
+  | { success: false; errors: ConfigFieldError[] };
+
+export type ConfigSnapshot = {
+  /** Resolved values of the requested settings */
+  values: Record<string, unknown>;
+  /** Settings overridden at runtime (persisted in the state directory) */
+  overrides: Record<string, unknown>;
+};
+
+/**
+ * Settings read once at startup (host list, schedules, HTTP routes, history
+ * files). They are still validated and saved, but need a restart.
+ */
+const RESTART_REQUIRED = new Set([
+  "ollamaHost",
+  "ollamaHosts",
+  "schedules",
+  "dashboardEnabled",
+  "metricsEnabled",
+  "historyMaxFileMB",
+  "historyMaxFiles",
+]);
+
+const OVERRIDES_FILE = "config-overrides.json";
+
+export class RuntimeConfig {
+  private config: PluginConfig;
+  private base: Record<string, unknown>;
+  private schema: SchemaNode;
+  private dir: string;
+  private overrides: Record<string, unknown> = {};
+  private listeners: ((changed: string[]) => void)[] = [];
+
+  constructor(
+    config: PluginConfig,
+    base: Record<string, unknown> | undefined,
+    schema: SchemaNode,
+    dir: string
+  ) {
+    this.config = config;
+    this.base = base ?? {};
+    this.schema = schema;
+    this.dir = dir;
+  }
+
+  /**
+   * Called with the changed setting names after every successful change.
+   */
+  onChange(listener: (changed: string[]) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Apply overrides saved by an earlier run. Synchronous so it can run in
+   * register, before anything reads startup-only settings. Invalid saved
+   * settings are dropped and returned so the caller can log them.
+   */
+  load(): ConfigFieldError[] {
+    let text: string;
+    try {
+      text = readFileSync(join(this.dir, OVERRIDES_FILE), "utf-8");
+    } catch {
+      return [];
+    }
+    let saved: unknown;
+    try {
+      saved = JSON.parse(text);
+    } catch (err) {
+      return [{ field: OVERRIDES_FILE, message: `unreadable, ignored (${err})` }];
+    }
+    if (!isPlainObject(saved)) {
+      return [{ field: OVERRIDES_FILE, message: "unreadable, ignored (not a JSON object)" }];
+    }
+    const errors = this.validate(saved);
+    const invalid = new Set(errors.map((e) => topLevelKey(e.field)));
+    const valid = Object.fromEntries(Object.entries(saved).filter(([key]) => !invalid.has(key)));
+    this.apply(valid);
+    return errors;
+  }
+
+  /**
+   * Resolved values of the given settings (all settings when none given).
+   */
+  get(keys: string[] = []): ConfigSnapshot {
+    const all = this.config as unknown as Record<string, unknown>;
+    const wanted = keys.length > 0 ? keys : Object.keys(all);
+    const values: Record<string, unknown> = {};
+    for (const key of wanted) {
+      if (key in all) values[key] = clone(all[key]);
+    }
+    return { values, overrides: clone(this.overrides) };
+  }
+
+  /**
+   * Validate and apply a partial config. A null value removes the runtime
+   * override so the setting falls back to the registered config. Nothing is
+   * applied when any field is invalid.
+   */
+  async set(patch: Record<string, unknown>): Promise<ConfigSetResult> {
+    const { errors, next } = this.merge(patch);
+    if (errors.length > 0) return { success: false, errors };
+
+    const changed = this.apply(next);
+    await this.save();
+    return {
+      success: true,
+      changed,
+      restartRequired: changed.filter((key) => RESTART_REQUIRED.has(key)),
+    };
+  }
+
+  /**
+   * The config that would result from a patch, without applying it (null
+   * values reset a setting, as in set()).
+   */
+  preview(patch: Record<string, unknown>): ConfigPreviewResult {
+    const { errors, next } = this.merge(patch);
+    if (errors.length > 0) return { success: false, errors };
+    return { success: true, config: resolvePluginConfig({ ...this.base, ...next }) };
+  }
+
+  /**
+   * Validate a patch and merge it into the current overrides.
+   */
+  private merge(patch: Record<string, unknown>): {
+    errors: ConfigFieldError[];
+    next: Record<string, unknown>;
+  } {
+    const updates = Object.fromEntries(Object.entries(patch).filter(([, v]) => v !== null));
+    const errors = this.validate(updates);
+    for (const key of Object.keys(patch)) {
+      if (patch[key] === null && !this.schema.properties?.[key]) {
+        errors.push({ field: key, message: "is not a known setting" });
+      }
+    }
+
+    const next = { ...this.overrides, ...updates };
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === null) delete next[key];
+    }
+    return { errors, next };
+  }
+
+  /**
+   * Schema errors, plus the routing policy's own checks.
+   */
+  private validate(values: Record<string, unknown>): ConfigFieldError[] {
+    const errors = validateConfig(values, this.schema);
+    if (values.routingPolicy !== undefined && !errors.some((e) => e.field.startsWith("routingPolicy"))) {
+      errors.push(...parseRoutingPolicy(values.routingPolicy).errors);
+    }
+    return errors;
+  }
+
+  /**
+   * Re-resolve the config with the given overrides and update it in place.
+   * Returns the names of settings whose value changed.
+   */
+  private apply(overrides: Record<string, unknown>): string[] {
+    this.overrides = overrides;
+    const resolved = resolvePluginConfig({ ...this.base, ...overrides });
+    const current = this.config as unknown as Record<string, unknown>;
+    const changed = Object.keys(resolved).filter(
+      (key) =>
+        JSON.stringify(current[key]) !==
+        JSON.stringify((resolved as unknown as Record<string, unknown>)[key])
+    );
+    Object.assign(this.config, resolved);
+
+    if (changed.length > 0) {
+      for (const listener of this.listeners) {
+        try {
+          listener(changed);
+        } catch {
+          // Listeners must never break a config change
+        }
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Write overrides atomically (temp file + rename).
+   */
+  private async save(): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const path = join(this.dir, OVERRIDES_FILE);
+    await writeFile(`${path}.tmp`, JSON.stringify(this.overrides, null, 2), "utf-8");
+    await rename(`${path}.tmp`, path);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function topLevelKey(field: string): string {
+  return field.split(/[.[]/)[0];
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+}
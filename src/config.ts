@@ -2,70 +2,544 @@
  * Plugin configuration type and resolver.
  */
 
+import { DEFAULT_ROUTING_POLICY, parseRoutingPolicy, type PolicyRule } from "./routing-policy.js";
+
+export type ModelTier = "primary" | "sidecar";
+
+/**
+ * One entry in the local model pool.
+ * - tier: "primary" (GPU+RAM hybrid) or "sidecar" (CPU-only, fast path)
+ * - priority: lower numbers are preferred within a tier
+ * - role: free-form task role, e.g. "general", "chat", "coder", "reasoning", "vision"
+ */
+export type ModelPoolEntry = {
+  name: string;
+  tier: ModelTier;
+  priority: number;
+  role: string;
+};
+
+/**
+ * One Ollama server in the cluster.
+ * - maxLoadedModels: how many models the host can keep resident at once
+ * - vramBudgetMB: VRAM the host can dedicate to models (unset = the local
+ *   GPU reading for a localhost URL, unknown for a remote host)
+ */
+export type OllamaHostConfig = {
+  name: string;
+  url: string;
+  maxLoadedModels: number;
+  vramBudgetMB?: number;
+};
+
+/**
+ * A cron-style warm-up schedule.
+ * - cron: five fields (minute hour day-of-month month day-of-week), local time
+ * - action: "warm" loads the models, "unload" unloads them, "keep-warm" keeps
+ *   them loaded for every minute the expression matches
+ * - models: pool model names; "*" means every pool model ("warm", "keep-warm")
+ *   or every loaded model ("unload")
+ * - host: limit to one Ollama host (default: the best host per model for
+ *   warming, every host for unloading)
+ */
+export type WarmSchedule = {
+  name: string;
+  cron: string;
+  action: "warm" | "unload" | "keep-warm";
+  models: string[];
+  host?: string;
+  keepAliveMinutes?: number;
+};
+
+/**
+ * A routing rule, matched against the agent context. The first rule whose
+ * match fields all match applies.
+ * - match: agentId, channel (message provider), workspace (workspace dir,
+ *   including subdirectories) and sessionKey; `*` matches any characters and
+ *   omitted fields match anything
+ * - model: always use this pool model while it is pulled
+ * - tiers: only route to these tiers
+ * - role: prefer pool entries with this role
+ * - allowFallback: false keeps requests local even when no local model is usable
+ */
+export type RoutingRule = {
+  name: string;
+  match: RuleMatch;
+  model?: string;
+  tiers?: ModelTier[];
+  role?: string;
+  allowFallback?: boolean;
+};
+
+export type RuleMatch = {
+  agentId?: string;
+  channel?: string;
+  workspace?: string;
+  sessionKey?: string;
+};
+
+/**
+ * How per-GPU VRAM usage is combined for the overload decision:
+ * - sum: all GPUs as one pool
+ * - any: overloaded when any GPU is over the threshold
+ * - all: overloaded only when every GPU is over the threshold
+ * - device: only the GPU at gpuDevice
+ */
+export type GpuAggregation = "sum" | "any" | "all" | "device";
+
+const GPU_AGGREGATIONS: GpuAggregation[] = ["sum", "any", "all", "device"];
+
 export type PluginConfig = {
   ollamaHost: string;
-  primaryModel: string;
-  sidecarModel: string;
+  ollamaHosts: OllamaHostConfig[];
+  models: ModelPoolEntry[];
   fallbackModel?: string;
   keepAliveMinutes: number;
+  evictionEnabled: boolean;
+  pinnedModels: string[];
+  evictionMinIdleSec: number;
   gpuMemoryThreshold: number;
+  gpuAggregation: GpuAggregation;
+  /** GPU index used when gpuAggregation is "device" */
+  gpuDevice: number;
+  /** Kill hardware probes (GPU/memory detection and sampling commands) that run longer than this */
+  metricsTimeoutMs: number;
+  /**
+   * Pressure on the gateway machine (RAM, swap, CPU) at which a CPU sidecar
+   * on a local Ollama host is avoided; remote hosts' sidecars are unaffected
+   */
+  ramPressureThreshold: number;
+  swapPressureThreshold: number;
+  cpuPressureThreshold: number;
+  complexityThreshold: number;
+  contextReserveTokens: number;
+  sessionStickiness: boolean;
+  sessionTtlMin: number;
+  stickyLoadMargin: number;
+  stickySustainSec: number;
+  latencyEwmaAlpha: number;
+  latencyMinSamples: number;
+  latencySlowdownRatio: number;
+  latencyMinSuccessRate: number;
+  /** Half-life over which a model's recent latency and success rate drift back to normal */
+  latencyRecoveryMin: number;
+  benchmarkPriors: boolean;
   healthCheckIntervalSec: number;
+  healthFailureThreshold: number;
+  healthRecoveryThreshold: number;
+  healthMaxBackoffSec: number;
+  warmBreakerThreshold: number;
+  warmBreakerCooldownSec: number;
   preloadOnStart: boolean;
+  schedules: WarmSchedule[];
+  routingRules: RoutingRule[];
+  routingPolicy: PolicyRule[];
+  predictiveWarm: boolean;
+  prewarmLeadMinutes: number;
+  prewarmMinProbability: number;
+  prewarmHistoryDays: number;
+  prewarmIdleKeepAliveMinutes: number;
+  autoPullMissing: boolean;
   autoRoute: boolean;
   dashboardEnabled: boolean;
+  metricsEnabled: boolean;
+  historyMaxFileMB: number;
+  historyMaxFiles: number;
 };
 
+const DEFAULT_PRIMARY_MODEL = "qwen2.5-coder:7b";
+const DEFAULT_SIDECAR_MODEL = "deepseek-coder-v2:16b";
+
+const DEFAULT_OLLAMA_HOST = "http://localhost:11434";
+const DEFAULT_MAX_LOADED_MODELS = 3;
+
 const DEFAULTS: PluginConfig = {
-  ollamaHost: "http://localhost:11434",
-  primaryModel: "qwen2.5-coder:7b",
-  sidecarModel: "deepseek-coder-v2:16b",
+  ollamaHost: DEFAULT_OLLAMA_HOST,
+  ollamaHosts: [
+    { name: hostNameFromUrl(DEFAULT_OLLAMA_HOST), url: DEFAULT_OLLAMA_HOST, maxLoadedModels: DEFAULT_MAX_LOADED_MODELS },
+  ],
+  models: [
+    { name: DEFAULT_PRIMARY_MODEL, tier: "primary", priority: 0, role: "general" },
+    { name: DEFAULT_SIDECAR_MODEL, tier: "sidecar", priority: 0, role: "general" },
+  ],
   keepAliveMinutes: 30,
+  evictionEnabled: true,
+  pinnedModels: [],
+  evictionMinIdleSec: 300,
   gpuMemoryThreshold: 0.85,
+  gpuAggregation: "sum",
+  gpuDevice: 0,
+  metricsTimeoutMs: 5000,
+  ramPressureThreshold: 0.95,
+  swapPressureThreshold: 0.5,
+  cpuPressureThreshold: 0.9,
+  complexityThreshold: 0.3,
+  contextReserveTokens: 1024,
+  sessionStickiness: true,
+  sessionTtlMin: 60,
+  stickyLoadMargin: 0.05,
+  stickySustainSec: 60,
+  latencyEwmaAlpha: 0.3,
+  latencyMinSamples: 5,
+  latencySlowdownRatio: 2,
+  latencyMinSuccessRate: 0.5,
+  latencyRecoveryMin: 10,
+  benchmarkPriors: false,
   healthCheckIntervalSec: 30,
+  healthFailureThreshold: 3,
+  healthRecoveryThreshold: 2,
+  healthMaxBackoffSec: 300,
+  warmBreakerThreshold: 3,
+  warmBreakerCooldownSec: 60,
   preloadOnStart: true,
+  schedules: [],
+  routingRules: [],
+  routingPolicy: DEFAULT_ROUTING_POLICY,
+  predictiveWarm: true,
+  prewarmLeadMinutes: 10,
+  prewarmMinProbability: 0.5,
+  prewarmHistoryDays: 28,
+  prewarmIdleKeepAliveMinutes: 10,
+  autoPullMissing: false,
   autoRoute: true,
   dashboardEnabled: true,
+  metricsEnabled: true,
+  historyMaxFileMB: 5,
+  historyMaxFiles: 5,
 };
 
 export function resolvePluginConfig(
   raw: Record<string, unknown> | undefined
 ): PluginConfig {
-  // Debug: log what raw config we received
-  if (typeof process !== "undefined" && process.env) {
-    try {
-      const debugMsg = raw
-        ? `[model-load-optimizer] Config resolver received: ${JSON.stringify(raw)}`
-        : "[model-load-optimizer] Config resolver received: undefined (using defaults)";
-      console.log(debugMsg);
-    } catch {
-      // ignore
-    }
+  if (!raw) {
+    return {
+      ...DEFAULTS,
+      pinnedModels: [],
+      schedules: [],
+      routingRules: [],
+      routingPolicy: clonePolicy(DEFAULT_ROUTING_POLICY),
+      ollamaHosts: DEFAULTS.ollamaHosts.map((h) => ({ ...h })),
+      models: DEFAULTS.models.map((m) => ({ ...m })),
+    };
   }
 
-  if (!raw) return { ...DEFAULTS };
+  const ollamaHost =
+    typeof raw.ollamaHost === "string" ? raw.ollamaHost : DEFAULTS.ollamaHost;
 
   return {
-    ollamaHost:
-      typeof raw.ollamaHost === "string" ? raw.ollamaHost : DEFAULTS.ollamaHost,
-    primaryModel:
-      typeof raw.primaryModel === "string" ? raw.primaryModel : DEFAULTS.primaryModel,
-    sidecarModel:
-      typeof raw.sidecarModel === "string" ? raw.sidecarModel : DEFAULTS.sidecarModel,
+    ollamaHost,
+    ollamaHosts: resolveOllamaHosts(raw, ollamaHost),
+    models: resolveModelPool(raw),
     fallbackModel:
       typeof raw.fallbackModel === "string" ? raw.fallbackModel : undefined,
     keepAliveMinutes:
       typeof raw.keepAliveMinutes === "number" ? raw.keepAliveMinutes : DEFAULTS.keepAliveMinutes,
+    evictionEnabled:
+      typeof raw.evictionEnabled === "boolean" ? raw.evictionEnabled : DEFAULTS.evictionEnabled,
+    pinnedModels: Array.isArray(raw.pinnedModels)
+      ? raw.pinnedModels
+          .filter((m): m is string => typeof m === "string")
+          .map((m) => m.replace(/^ollama\//, ""))
+      : [],
+    evictionMinIdleSec:
+      typeof raw.evictionMinIdleSec === "number" ? raw.evictionMinIdleSec : DEFAULTS.evictionMinIdleSec,
     gpuMemoryThreshold:
       typeof raw.gpuMemoryThreshold === "number" ? raw.gpuMemoryThreshold : DEFAULTS.gpuMemoryThreshold,
+    gpuAggregation: GPU_AGGREGATIONS.includes(raw.gpuAggregation as GpuAggregation)
+      ? (raw.gpuAggregation as GpuAggregation)
+      : DEFAULTS.gpuAggregation,
+    gpuDevice: typeof raw.gpuDevice === "number" ? raw.gpuDevice : DEFAULTS.gpuDevice,
+    metricsTimeoutMs:
+      typeof raw.metricsTimeoutMs === "number" ? raw.metricsTimeoutMs : DEFAULTS.metricsTimeoutMs,
+    ramPressureThreshold:
+      typeof raw.ramPressureThreshold === "number"
+        ? raw.ramPressureThreshold
+        : DEFAULTS.ramPressureThreshold,
+    swapPressureThreshold:
+      typeof raw.swapPressureThreshold === "number"
+        ? raw.swapPressureThreshold
+        : DEFAULTS.swapPressureThreshold,
+    cpuPressureThreshold:
+      typeof raw.cpuPressureThreshold === "number"
+        ? raw.cpuPressureThreshold
+        : DEFAULTS.cpuPressureThreshold,
+    complexityThreshold:
+      typeof raw.complexityThreshold === "number" ? raw.complexityThreshold : DEFAULTS.complexityThreshold,
+    contextReserveTokens:
+      typeof raw.contextReserveTokens === "number"
+        ? raw.contextReserveTokens
+        : DEFAULTS.contextReserveTokens,
+    sessionStickiness:
+      typeof raw.sessionStickiness === "boolean"
+        ? raw.sessionStickiness
+        : DEFAULTS.sessionStickiness,
+    sessionTtlMin:
+      typeof raw.sessionTtlMin === "number" ? raw.sessionTtlMin : DEFAULTS.sessionTtlMin,
+    stickyLoadMargin:
+      typeof raw.stickyLoadMargin === "number" ? raw.stickyLoadMargin : DEFAULTS.stickyLoadMargin,
+    stickySustainSec:
+      typeof raw.stickySustainSec === "number" ? raw.stickySustainSec : DEFAULTS.stickySustainSec,
+    latencyEwmaAlpha:
+      typeof raw.latencyEwmaAlpha === "number" ? raw.latencyEwmaAlpha : DEFAULTS.latencyEwmaAlpha,
+    latencyMinSamples:
+      typeof raw.latencyMinSamples === "number" ? raw.latencyMinSamples : DEFAULTS.latencyMinSamples,
+    latencySlowdownRatio:
+      typeof raw.latencySlowdownRatio === "number"
+        ? raw.latencySlowdownRatio
+        : DEFAULTS.latencySlowdownRatio,
+    latencyMinSuccessRate:
+      typeof raw.latencyMinSuccessRate === "number"
+        ? raw.latencyMinSuccessRate
+        : DEFAULTS.latencyMinSuccessRate,
+    latencyRecoveryMin:
+      typeof raw.latencyRecoveryMin === "number"
+        ? raw.latencyRecoveryMin
+        : DEFAULTS.latencyRecoveryMin,
+    benchmarkPriors:
+      typeof raw.benchmarkPriors === "boolean" ? raw.benchmarkPriors : DEFAULTS.benchmarkPriors,
     healthCheckIntervalSec:
       typeof raw.healthCheckIntervalSec === "number"
         ? raw.healthCheckIntervalSec
         : DEFAULTS.healthCheckIntervalSec,
+    healthFailureThreshold:
+      typeof raw.healthFailureThreshold === "number"
+        ? raw.healthFailureThreshold
+        : DEFAULTS.healthFailureThreshold,
+    healthRecoveryThreshold:
+      typeof raw.healthRecoveryThreshold === "number"
+        ? raw.healthRecoveryThreshold
+        : DEFAULTS.healthRecoveryThreshold,
+    healthMaxBackoffSec:
+      typeof raw.healthMaxBackoffSec === "number"
+        ? raw.healthMaxBackoffSec
+        : DEFAULTS.healthMaxBackoffSec,
+    warmBreakerThreshold:
+      typeof raw.warmBreakerThreshold === "number"
+        ? raw.warmBreakerThreshold
+        : DEFAULTS.warmBreakerThreshold,
+    warmBreakerCooldownSec:
+      typeof raw.warmBreakerCooldownSec === "number"
+        ? raw.warmBreakerCooldownSec
+        : DEFAULTS.warmBreakerCooldownSec,
     preloadOnStart:
       typeof raw.preloadOnStart === "boolean" ? raw.preloadOnStart : DEFAULTS.preloadOnStart,
+    schedules: resolveSchedules(raw),
+    routingRules: resolveRoutingRules(raw),
+    routingPolicy: resolveRoutingPolicy(raw),
+    predictiveWarm:
+      typeof raw.predictiveWarm === "boolean" ? raw.predictiveWarm : DEFAULTS.predictiveWarm,
+    prewarmLeadMinutes:
+      typeof raw.prewarmLeadMinutes === "number"
+        ? raw.prewarmLeadMinutes
+        : DEFAULTS.prewarmLeadMinutes,
+    prewarmMinProbability:
+      typeof raw.prewarmMinProbability === "number"
+        ? raw.prewarmMinProbability
+        : DEFAULTS.prewarmMinProbability,
+    prewarmHistoryDays:
+      typeof raw.prewarmHistoryDays === "number"
+        ? raw.prewarmHistoryDays
+        : DEFAULTS.prewarmHistoryDays,
+    prewarmIdleKeepAliveMinutes:
+      typeof raw.prewarmIdleKeepAliveMinutes === "number"
+        ? raw.prewarmIdleKeepAliveMinutes
+        : DEFAULTS.prewarmIdleKeepAliveMinutes,
+    autoPullMissing:
+      typeof raw.autoPullMissing === "boolean" ? raw.autoPullMissing : DEFAULTS.autoPullMissing,
     autoRoute:
       typeof raw.autoRoute === "boolean" ? raw.autoRoute : DEFAULTS.autoRoute,
     dashboardEnabled:
       typeof raw.dashboardEnabled === "boolean" ? raw.dashboardEnabled : DEFAULTS.dashboardEnabled,
+    metricsEnabled:
+      typeof raw.metricsEnabled === "boolean" ? raw.metricsEnabled : DEFAULTS.metricsEnabled,
+    historyMaxFileMB:
+      typeof raw.historyMaxFileMB === "number" ? raw.historyMaxFileMB : DEFAULTS.historyMaxFileMB,
+    historyMaxFiles:
+      typeof raw.historyMaxFiles === "number" ? raw.historyMaxFiles : DEFAULTS.historyMaxFiles,
   };
 }
+
+/**
+ * Build the host list from `ollamaHosts`, or from the single legacy
+ * `ollamaHost` when no cluster is configured.
+ */
+function resolveOllamaHosts(
+  raw: Record<string, unknown>,
+  ollamaHost: string
+): OllamaHostConfig[] {
+  if (Array.isArray(raw.ollamaHosts)) {
+    const hosts: OllamaHostConfig[] = [];
+    for (const item of raw.ollamaHosts) {
+      if (!item || typeof item !== "object") continue;
+      const entry = item as Record<string, unknown>;
+      if (typeof entry.url !== "string" || entry.url.length === 0) continue;
+      const name = typeof entry.name === "string" ? entry.name : hostNameFromUrl(entry.url);
+      if (hosts.some((h) => h.name === name)) continue;
+      hosts.push({
+        name,
+        url: entry.url,
+        maxLoadedModels:
+          typeof entry.maxLoadedModels === "number"
+            ? entry.maxLoadedModels
+            : DEFAULT_MAX_LOADED_MODELS,
+        vramBudgetMB:
+          typeof entry.vramBudgetMB === "number" ? entry.vramBudgetMB : undefined,
+      });
+    }
+    if (hosts.length > 0) return hosts;
+  }
+
+  return [
+    { name: hostNameFromUrl(ollamaHost), url: ollamaHost, maxLoadedModels: DEFAULT_MAX_LOADED_MODELS },
+  ];
+}
+
+function hostNameFromUrl(url: string): string {
+  try {
+    return new URL(url).host || url;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Build the model pool from `models`, or from the legacy
+ * `primaryModel` / `sidecarModel` pair when no pool is configured. Names are
+ * stored bare (without the ollama/ prefix), as Ollama reports them.
+ */
+function resolveModelPool(raw: Record<string, unknown>): ModelPoolEntry[] {
+  if (Array.isArray(raw.models)) {
+    const pool: ModelPoolEntry[] = [];
+    raw.models.forEach((item, index) => {
+      if (!item || typeof item !== "object") return;
+      const entry = item as Record<string, unknown>;
+      if (typeof entry.name !== "string" || entry.name.length === 0) return;
+      pool.push({
+        name: entry.name.replace(/^ollama\//, ""),
+        tier: entry.tier === "sidecar" ? "sidecar" : "primary",
+        priority: typeof entry.priority === "number" ? entry.priority : index,
+        role: typeof entry.role === "string" ? entry.role : "general",
+      });
+    });
+    if (pool.length > 0) return pool;
+  }
+
+  return [
+    {
+      name:
+        typeof raw.primaryModel === "string"
+          ? raw.primaryModel.replace(/^ollama\//, "")
+          : DEFAULT_PRIMARY_MODEL,
+      tier: "primary",
+      priority: 0,
+      role: "general",
+    },
+    {
+      name:
+        typeof raw.sidecarModel === "string"
+          ? raw.sidecarModel.replace(/^ollama\//, "")
+          : DEFAULT_SIDECAR_MODEL,
+      tier: "sidecar",
+      priority: 0,
+      role: "general",
+    },
+  ];
+}
+
+/**
+ * Build warm-up schedules. Entries without a cron string, a known action or
+ * any model are skipped; cron syntax is checked by the scheduler.
+ */
+function resolveSchedules(raw: Record<string, unknown>): WarmSchedule[] {
+  if (!Array.isArray(raw.schedules)) return [];
+  const schedules: WarmSchedule[] = [];
+  raw.schedules.forEach((item, index) => {
+    if (!item || typeof item !== "object") return;
+    const entry = item as Record<string, unknown>;
+    if (typeof entry.cron !== "string") return;
+    if (entry.action !== "warm" && entry.action !== "unload" && entry.action !== "keep-warm") return;
+    const models = (Array.isArray(entry.models) ? entry.models : [entry.models]).filter(
+      (m): m is string => typeof m === "string" && m.length > 0
+    );
+    if (models.length === 0) return;
+    schedules.push({
+      name: typeof entry.name === "string" ? entry.name : `schedule-${index + 1}`,
+      cron: entry.cron,
+      action: entry.action,
+      models: models.map((m) => m.replace(/^ollama\//, "")),
+      host: typeof entry.host === "string" ? entry.host : undefined,
+      keepAliveMinutes:
+        typeof entry.keepAliveMinutes === "number" ? entry.keepAliveMinutes : undefined,
+    });
+  });
+  return schedules;
+}
+
+/**
+ * Build routing rules. Unknown tiers are dropped; a rule without a match
+ * object matches every request.
+ */
+function resolveRoutingRules(raw: Record<string, unknown>): RoutingRule[] {
+  if (!Array.isArray(raw.routingRules)) return [];
+  const rules: RoutingRule[] = [];
+  raw.routingRules.forEach((item, index) => {
+    if (!item || typeof item !== "object") return;
+    const entry = item as Record<string, unknown>;
+    const match = (entry.match && typeof entry.match === "object" ? entry.match : {}) as Record<
+      string,
+      unknown
+    >;
+    const text = (value: unknown) => (typeof value === "string" && value.length > 0 ? value : undefined);
+    const tiers = Array.isArray(entry.tiers)
+      ? entry.tiers.filter((t): t is ModelTier => t === "primary" || t === "sidecar")
+      : undefined;
+    rules.push({
+      name: text(entry.name) ?? `rule-${index + 1}`,
+      match: {
+        agentId: text(match.agentId),
+        channel: text(match.channel),
+        workspace: text(match.workspace),
+        sessionKey: text(match.sessionKey),
+      },
+      model: text(entry.model)?.replace(/^ollama\//, ""),
+      tiers: tiers && tiers.length > 0 ? tiers : undefined,
+      role: text(entry.role),
+      allowFallback: typeof entry.allowFallback === "boolean" ? entry.allowFallback : undefined,
+    });
+  });
+  return rules;
+}
+
+/**
+ * The configured routing policy, or the built-in one when none is set or the
+ * configured one is invalid (its errors are reported at registration).
+ */
+function resolveRoutingPolicy(raw: Record<string, unknown>): PolicyRule[] {
+  if (raw.routingPolicy === undefined) return clonePolicy(DEFAULT_ROUTING_POLICY);
+  const { policy, errors } = parseRoutingPolicy(raw.routingPolicy);
+  return errors.length === 0 ? policy : clonePolicy(DEFAULT_ROUTING_POLICY);
+}
+
+function clonePolicy(policy: PolicyRule[]): PolicyRule[] {
+  return JSON.parse(JSON.stringify(policy)) as PolicyRule[];
+}
+
+/**
+ * Pool entries for one tier, most preferred first.
+ */
+export function modelsInTier(config: PluginConfig, tier: ModelTier): ModelPoolEntry[] {
+  return config.models
+    .filter((m) => m.tier === tier)
+    .sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * Look up a pool entry by bare Ollama name or `ollama/`-prefixed name.
+ */
+export function findPoolEntry(
+  config: PluginConfig,
+  modelName: string
+): ModelPoolEntry | undefined {
+  const bare = modelName.replace(/^ollama\//, "");
+  return config.models.find((m) => m.name === bare);
+}
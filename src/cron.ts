@@ -0,0 +1,149 @@
+/**
+ * Minimal five-field cron expressions: minute hour day-of-month month day-of-week.
+ *
+ * Each field accepts `*`, numbers, ranges (`1-5`), steps (`*\/15`, `8-18/2`)
+ * and comma lists. Months and weekdays also accept names (`JAN`, `MON-FRI`);
+ * weekday 7 is Sunday like 0. As in classic cron, when both day-of-month and
+ * day-of-week are restricted, a day matching either one matches.
+ * Times are evaluated in the gateway's local time zone.
+ */
+
+export type CronExpression = {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+/** Give up looking for the next run after this many days */
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+/**
+ * Parse a cron expression. Throws an Error describing the first bad field.
+ */
+export function parseCron(source: string): CronExpression {
+  const fields = source.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`expected 5 fields (minute hour day month weekday), got ${fields.length}`);
+  }
+
+  const daysOfWeek = parseField(fields[4], "weekday", 0, 7, DAY_NAMES);
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    source,
+    minutes: parseField(fields[0], "minute", 0, 59),
+    hours: parseField(fields[1], "hour", 0, 23),
+    daysOfMonth: parseField(fields[2], "day of month", 1, 31),
+    months: parseField(fields[3], "month", 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    domRestricted: fields[2] !== "*",
+    dowRestricted: fields[4] !== "*",
+  };
+}
+
+/**
+ * Does the expression match this minute?
+ */
+export function cronMatches(expr: CronExpression, date: Date): boolean {
+  return (
+    expr.minutes.has(date.getMinutes()) &&
+    expr.hours.has(date.getHours()) &&
+    dayMatches(expr, date)
+  );
+}
+
+/**
+ * First matching minute strictly after `from`, or undefined if none within
+ * the lookahead window (e.g. "0 0 30 2 *").
+ */
+export function nextCronRun(expr: CronExpression, from: Date): Date | undefined {
+  const start = new Date(from.getTime());
+  start.setSeconds(0, 0);
+  start.setMinutes(start.getMinutes() + 1);
+
+  const day = new Date(start.getTime());
+  day.setHours(0, 0, 0, 0);
+  const hours = [...expr.hours].sort((a, b) => a - b);
+  const minutes = [...expr.minutes].sort((a, b) => a - b);
+
+  for (let i = 0; i < MAX_LOOKAHEAD_DAYS; i++) {
+    if (dayMatches(expr, day)) {
+      for (const hour of hours) {
+        for (const minute of minutes) {
+          const candidate = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute);
+          // Skip minutes that don't exist (DST gaps) or are already past
+          if (candidate.getHours() !== hour || candidate < start) continue;
+          return candidate;
+        }
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return undefined;
+}
+
+function dayMatches(expr: CronExpression, date: Date): boolean {
+  if (!expr.months.has(date.getMonth() + 1)) return false;
+  const dom = expr.daysOfMonth.has(date.getDate());
+  const dow = expr.daysOfWeek.has(date.getDay());
+  if (expr.domRestricted && expr.dowRestricted) return dom || dow;
+  if (expr.domRestricted) return dom;
+  if (expr.dowRestricted) return dow;
+  return true;
+}
+
+function parseField(
+  field: string,
+  label: string,
+  min: number,
+  max: number,
+  names?: string[],
+  nameOffset: number = 0
+): Set<number> {
+  const values = new Set<number>();
+  const value = (token: string): number => {
+    const index = names?.indexOf(token.toUpperCase()) ?? -1;
+    const n = index >= 0 ? index + nameOffset : Number(token);
+    if (!Number.isInteger(n) || n < min || n > max) {
+      throw new Error(`invalid ${label} "${token}" (allowed ${min}-${max})`);
+    }
+    return n;
+  };
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`invalid ${label} step "${stepText}"`);
+    }
+
+    let lo: number;
+    let hi: number;
+    if (range === "*") {
+      lo = min;
+      hi = max;
+    } else if (range.includes("-")) {
+      const [a, b] = range.split("-");
+      lo = value(a);
+      hi = value(b);
+      if (lo > hi) throw new Error(`invalid ${label} range "${range}"`);
+    } else {
+      lo = value(range);
+      hi = stepText === undefined ? lo : max;
+    }
+
+    for (let n = lo; n <= hi; n += step) values.add(n);
+  }
+  return values;
+}
@@ -0,0 +1,268 @@
+/**
+ * Diagnostics for /model-doctor: checks the things we otherwise debug by
+ * hand when routing misbehaves (GPU monitoring, Ollama hosts, pulled tags,
+ * threshold vs VRAM, fallback model, pool tiers) and reports each as
+ * pass/warn/fail with a concrete remediation.
+ */
+
+import { modelsInTier, type PluginConfig } from "./config.js";
+import type { ModelRouter, RouterState } from "./router.js";
+import { detectGpus, runCommand, type GpuInfo } from "./gpu-detect.js";
+import {
+  aggregateGpuMetrics,
+  selectGpuMetricsProvider,
+  type GpuDeviceMetrics,
+  type GpuMetricsProvider,
+} from "./gpu-metrics.js";
+
+export type DoctorStatus = "pass" | "warn" | "fail";
+
+export type DoctorCheck = {
+  id: string;
+  title: string;
+  status: DoctorStatus;
+  detail: string;
+  /** What to do about a warn/fail */
+  remediation?: string;
+};
+
+export type DoctorReport = {
+  status: DoctorStatus;
+  checks: DoctorCheck[];
+  summary: Record<DoctorStatus, number>;
+  timestamp: number;
+};
+
+/** Thresholds outside this range are legal but rarely what anyone wants */
+const SANE_THRESHOLD_MIN = 0.5;
+const SANE_THRESHOLD_MAX = 0.95;
+
+const BUILTIN_FALLBACK = "anthropic/claude-sonnet-4-5";
+
+/**
+ * Run every check. Refreshes the router's health first (hosts that are
+ * backing off after repeated failures keep their last result), joining a
+ * refresh that is already in flight.
+ */
+export async function runDiagnostics(
+  router: ModelRouter,
+  config: PluginConfig
+): Promise<DoctorReport> {
+  const run = (cmd: string) => runCommand(cmd, config.metricsTimeoutMs);
+  const gpus = await detectGpus(config.metricsTimeoutMs);
+  const provider = await selectGpuMetricsProvider(gpus, { run });
+  const [devices] = await Promise.all([provider?.sample() ?? [], router.refreshHealth()]);
+  const gpu = aggregateGpuMetrics(devices, config.gpuAggregation, config.gpuDevice);
+  const state = router.getState();
+
+  const checks: DoctorCheck[] = [
+    checkGpuMonitoring(gpus, provider, devices, config),
+    ...checkHosts(state),
+    ...checkPulledModels(state, config),
+    checkThreshold(state, config, gpu.vram?.totalMB ?? gpus[0]?.vramMB ?? 0),
+    checkFallback(config),
+    checkTiers(config),
+  ];
+
+  const summary: Record<DoctorStatus, number> = { pass: 0, warn: 0, fail: 0 };
+  for (const check of checks) summary[check.status]++;
+  return {
+    status: summary.fail > 0 ? "fail" : summary.warn > 0 ? "warn" : "pass",
+    checks,
+    summary,
+    timestamp: Date.now(),
+  };
+}
+
+function checkGpuMonitoring(
+  gpus: GpuInfo[],
+  provider: GpuMetricsProvider | null,
+  devices: GpuDeviceMetrics[],
+  config: PluginConfig
+): DoctorCheck {
+  const base = { id: "gpu-monitoring", title: "GPU load monitoring" };
+  if (provider && config.gpuAggregation === "device" && !devices.some((d) => d.index === config.gpuDevice)) {
+    return {
+      ...base,
+      status: "fail",
+      detail: `gpuAggregation is device but ${provider.name} reports no GPU ${config.gpuDevice} (found: ${devices.map((d) => d.index).join(", ") || "none"}), so the GPU always looks idle`,
+      remediation: `Set gpuDevice to one of the reported GPU indexes, or use gpuAggregation sum/any/all`,
+    };
+  }
+  if (provider) {
+    const names = gpus.map((g) => `${g.name} (${g.vramMB}MB)`).join(", ");
+    return { ...base, status: "pass", detail: `VRAM read through ${provider.name}${names ? `: ${names}` : ""}` };
+  }
+  if (gpus.length > 0) {
+    return {
+      ...base,
+      status: "warn",
+      detail: `Found ${gpus.map((g) => `${g.vendor} ${g.name}`).join(", ")}, but none of nvidia-smi, amdgpu sysfs, rocm-smi or ioreg reports its VRAM usage, so the GPU always looks idle and requests never shift to the sidecar`,
+      remediation: "For NVIDIA make sure nvidia-smi runs as the gateway user; for AMD make sure /sys/class/drm/card*/device/mem_info_vram_used is readable or install rocm-smi",
+    };
+  }
+  return {
+    ...base,
+    status: "warn",
+    detail: "No GPU metrics source (nvidia-smi, amdgpu sysfs, rocm-smi, ioreg) and no GPU was detected; the GPU always looks idle",
+    remediation: "Install the GPU driver and its tools (nvidia-smi or rocm-smi) on the PATH of the gateway process",
+  };
+}
+
+function checkHosts(state: RouterState): DoctorCheck[] {
+  return state.hosts.map((host) => {
+    const base = { id: `ollama-host:${host.name}`, title: `Ollama host ${host.name}` };
+    const health = host.health;
+    if (health.state === "healthy") {
+      return {
+        ...base,
+        status: "pass" as const,
+        detail: `Answering at ${host.url} (v${host.version ?? "?"}, ${host.pulledModels.length} model(s) pulled)`,
+      };
+    }
+    if (host.reachable || health.state === "recovering") {
+      return {
+        ...base,
+        status: "warn" as const,
+        detail: `${health.state} at ${host.url}${health.lastError ? `: ${health.lastError}` : ""}`,
+        remediation: "Some endpoints are failing; check the Ollama server log and that it isn't overloaded or mid-upgrade",
+      };
+    }
+    return {
+      ...base,
+      status: "fail" as const,
+      detail: `No answer at ${host.url}${health.lastError ? `: ${health.lastError}` : ""}`,
+      remediation: `Start Ollama (\`ollama serve\`) on that machine, or fix the URL. For remote hosts, set OLLAMA_HOST=0.0.0.0 on the server and check firewalls (test with \`curl ${host.url}/api/version\`)`,
+    };
+  });
+}
+
+function checkPulledModels(state: RouterState, config: PluginConfig): DoctorCheck[] {
+  const reachable = state.hosts.filter((h) => h.reachable);
+  return config.models.map((entry) => {
+    const base = { id: `model:${entry.name}`, title: `Model ${entry.name} (${entry.tier})` };
+    if (reachable.length === 0) {
+      return {
+        ...base,
+        status: "warn" as const,
+        detail: "Cannot tell whether it is pulled: no Ollama host is reachable",
+        remediation: "Fix the Ollama host checks first",
+      };
+    }
+
+    const status = state.models.find((m) => m.name === entry.name);
+    if (status?.pulled) {
+      return { ...base, status: "pass" as const, detail: `Pulled on ${status.pulledOn.join(", ")}` };
+    }
+
+    // Look for near misses: same model under another tag, or missing ":latest"
+    const family = entry.name.split(":")[0];
+    const similar = new Set<string>();
+    for (const host of reachable) {
+      for (const name of host.pulledModels) {
+        if (name.split(":")[0] === family) similar.add(name);
+      }
+    }
+    if (similar.size > 0) {
+      return {
+        ...base,
+        status: "fail" as const,
+        detail: `Not pulled under this exact name; found ${[...similar].join(", ")}`,
+        remediation: `Use the exact tag in the models config (e.g. "${[...similar][0]}"), or pull this one with \`ollama pull ${entry.name}\``,
+      };
+    }
+    return {
+      ...base,
+      status: "fail" as const,
+      detail: `Not pulled on any reachable host`,
+      remediation: `Run \`/model-status pull ${entry.name}\` (or \`ollama pull ${entry.name}\`), or enable autoPullMissing`,
+    };
+  });
+}
+
+function checkThreshold(state: RouterState, config: PluginConfig, vramMB: number): DoctorCheck {
+  const base = { id: "gpu-threshold", title: "GPU memory threshold" };
+  const pct = `${(config.gpuMemoryThreshold * 100).toFixed(0)}%`;
+  if (config.gpuMemoryThreshold > SANE_THRESHOLD_MAX) {
+    return {
+      ...base,
+      status: "warn",
+      detail: `${pct} leaves almost no VRAM headroom; loads may spill to RAM or fail before routing reacts`,
+      remediation: "Set gpuMemoryThreshold to around 0.85",
+    };
+  }
+  if (config.gpuMemoryThreshold < SANE_THRESHOLD_MIN) {
+    return {
+      ...base,
+      status: "warn",
+      detail: `${pct} sends work to the CPU sidecar while most of the GPU is free`,
+      remediation: "Set gpuMemoryThreshold to around 0.85 unless the GPU is shared with other work",
+    };
+  }
+  if (vramMB <= 0) {
+    return { ...base, status: "pass", detail: `${pct} (GPU VRAM unknown, fit not checked)` };
+  }
+
+  // The preferred primary should fit under the threshold on its own
+  const status = (name: string) => state.models.find((m) => m.name === name);
+  const primary = modelsInTier(config, "primary").find((m) => status(m.name)?.pulled);
+  const sizeMB = primary ? Math.round((status(primary.name)?.sizeBytes ?? 0) / 1024 / 1024) : 0;
+  const budgetMB = Math.round(vramMB * config.gpuMemoryThreshold);
+  if (primary && sizeMB > budgetMB) {
+    return {
+      ...base,
+      status: "warn",
+      detail: `${primary.name} is ${sizeMB}MB but ${pct} of ${vramMB}MB VRAM is ${budgetMB}MB; once it loads the GPU counts as overloaded and requests go to the sidecar`,
+      remediation: `Use a smaller quantization of ${primary.name}, or raise gpuMemoryThreshold to at least ${Math.min(SANE_THRESHOLD_MAX, Math.ceil((sizeMB / vramMB) * 100 + 5) / 100)}`,
+    };
+  }
+  return {
+    ...base,
+    status: "pass",
+    detail: `${pct} of ${vramMB}MB VRAM = ${budgetMB}MB${primary ? ` (${primary.name}: ${sizeMB}MB)` : ""}`,
+  };
+}
+
+function checkFallback(config: PluginConfig): DoctorCheck {
+  const base = { id: "fallback-model", title: "Fallback model" };
+  if (!config.fallbackModel) {
+    return {
+      ...base,
+      status: "warn",
+      detail: `fallbackModel is not set; when no local model is usable, requests go to the built-in ${BUILTIN_FALLBACK}`,
+      remediation: "Set fallbackModel to a remote model your gateway has credentials for",
+    };
+  }
+  if (config.fallbackModel.startsWith("ollama/")) {
+    return {
+      ...base,
+      status: "warn",
+      detail: `${config.fallbackModel} is a local model, so it is unavailable exactly when Ollama is down`,
+      remediation: "Use a remote provider model (e.g. anthropic/... or openai/...) as the fallback",
+    };
+  }
+  return { ...base, status: "pass", detail: config.fallbackModel };
+}
+
+function checkTiers(config: PluginConfig): DoctorCheck {
+  const base = { id: "pool-tiers", title: "Model pool tiers" };
+  const primaries = modelsInTier(config, "primary").length;
+  const sidecars = modelsInTier(config, "sidecar").length;
+  if (primaries === 0) {
+    return {
+      ...base,
+      status: "fail",
+      detail: "No primary model configured; complex requests can only use the sidecar or fallback",
+      remediation: 'Add a model with "tier": "primary" to the models config',
+    };
+  }
+  if (sidecars === 0) {
+    return {
+      ...base,
+      status: "warn",
+      detail: "No sidecar model configured; under GPU load requests go straight to the fallback",
+      remediation: 'Add a small CPU-friendly model with "tier": "sidecar"',
+    };
+  }
+  return { ...base, status: "pass", detail: `${primaries} primary, ${sidecars} sidecar` };
+}
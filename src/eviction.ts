@@ -0,0 +1,113 @@
+/**
+ * VRAM eviction manager.
+ *
+ * Tracks when each model was last routed to or finished a run, and frees
+ * VRAM for a preferred model by unloading least-recently-used models
+ * (keep_alive: 0). Pinned models and models used within the idle window
+ * are never evicted.
+ */
+
+import type { PluginConfig } from "./config.js";
+import type { OllamaCluster } from "./ollama-cluster.js";
+
+export type EvictionCandidate = {
+  model: string;
+  host: string;
+  vramBytes: number;
+  /** Time since last use; Infinity if never routed to by this plugin */
+  idleMs: number;
+};
+
+export type EvictionRecord = EvictionCandidate & {
+  reason: string;
+  success: boolean;
+  timestamp: number;
+};
+
+const MAX_RECENT_EVICTIONS = 20;
+
+export class EvictionManager {
+  private cluster: OllamaCluster;
+  private config: PluginConfig;
+  private lastUsed = new Map<string, number>();
+  private recentEvictions: EvictionRecord[] = [];
+
+  constructor(cluster: OllamaCluster, config: PluginConfig) {
+    this.cluster = cluster;
+    this.config = config;
+  }
+
+  /**
+   * Record that a model was just used (routed to, or finished a run).
+   */
+  touch(modelName: string, at: number = Date.now()): void {
+    this.lastUsed.set(modelName.replace(/^ollama\//, ""), at);
+  }
+
+  lastUsedAt(modelName: string): number | undefined {
+    return this.lastUsed.get(modelName.replace(/^ollama\//, ""));
+  }
+
+  isPinned(modelName: string): boolean {
+    return this.config.pinnedModels.includes(modelName.replace(/^ollama\//, ""));
+  }
+
+  /**
+   * Recent evictions, newest first.
+   */
+  recent(): EvictionRecord[] {
+    return this.recentEvictions.map((r) => ({ ...r }));
+  }
+
+  /**
+   * Choose models to unload on a host so that at least `neededBytes` of VRAM
+   * is freed, least recently used first. Returns null when the evictable
+   * models can't free enough (so nothing is unloaded for no gain).
+   */
+  plan(targetModel: string, hostName: string, neededBytes: number): EvictionCandidate[] | null {
+    if (neededBytes <= 0) return [];
+    const client = this.cluster.getClient(hostName);
+    if (!client) return null;
+
+    const now = Date.now();
+    const minIdleMs = this.config.evictionMinIdleSec * 1000;
+    const candidates: EvictionCandidate[] = [];
+
+    for (const running of client.health.runningModels) {
+      const name = running.name;
+      if (name === targetModel || running.model === targetModel) continue;
+      if (this.isPinned(name)) continue;
+      const last = this.lastUsedAt(name);
+      const idleMs = last === undefined ? Infinity : now - last;
+      if (idleMs < minIdleMs) continue;
+      if (!running.size_vram) continue;
+      candidates.push({ model: name, host: hostName, vramBytes: running.size_vram, idleMs });
+    }
+
+    candidates.sort((a, b) => b.idleMs - a.idleMs);
+
+    const chosen: EvictionCandidate[] = [];
+    let freed = 0;
+    for (const candidate of candidates) {
+      chosen.push(candidate);
+      freed += candidate.vramBytes;
+      if (freed >= neededBytes) return chosen;
+    }
+    return null;
+  }
+
+  /**
+   * Unload the planned models and record the outcome.
+   */
+  async evict(candidates: EvictionCandidate[], reason: string): Promise<EvictionRecord[]> {
+    const records: EvictionRecord[] = [];
+    for (const candidate of candidates) {
+      const success = await this.cluster.unloadModel(candidate.model, candidate.host);
+      const record: EvictionRecord = { ...candidate, reason, success, timestamp: Date.now() };
+      records.push(record);
+      this.recentEvictions.unshift(record);
+    }
+    this.recentEvictions.length = Math.min(this.recentEvictions.length, MAX_RECENT_EVICTIONS);
+    return records;
+  }
+}
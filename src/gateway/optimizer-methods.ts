@@ -5,7 +5,17 @@
 
 import type { PluginConfig } from "../config.js";
 import type { ModelRouter } from "../router.js";
-import type { OllamaClient } from "../ollama-client.js";
+import type { PullManager } from "../pull-manager.js";
+import type { EvictionManager } from "../eviction.js";
+import type { SessionAffinity } from "../session-affinity.js";
+import type { BenchmarkRunner } from "../benchmark.js";
+import type { WarmScheduler } from "../scheduler.js";
+import type { RuntimeConfig } from "../config-store.js";
+import { runDiagnostics } from "../doctor.js";
+import { describeSystemPressure } from "../system-metrics.js";
+import { defaultComplexityScorer } from "../complexity.js";
+import { parseHistoryQuery, type DecisionHistory } from "../history.js";
+import { parseReplayRecords, recordsFromHistory, replayDecisions, type ReplayRecord } from "../replay.js";
 
 type MethodOpts = {
   params?: Record<string, unknown>;
@@ -14,38 +24,60 @@ type MethodOpts = {
 
 export function createStatusMethod(
   router: ModelRouter,
-  client: OllamaClient,
-  config: PluginConfig
+  config: PluginConfig,
+  pulls: PullManager,
+  eviction: EvictionManager,
+  sessions: SessionAffinity,
+  benchmarks: BenchmarkRunner,
+  scheduler: WarmScheduler
 ) {
   return async (opts: MethodOpts): Promise<void> => {
     const state = router.getState();
-    const health = client.health;
     opts.reply({
       ollamaReachable: state.ollamaReachable,
-      ollamaVersion: health.version,
-      ollamaHost: config.ollamaHost,
-      primaryModel: {
-        ...state.primaryStatus,
-        configName: config.primaryModel,
-      },
-      sidecarModel: {
-        ...state.sidecarStatus,
-        configName: config.sidecarModel,
-      },
+      hosts: state.hosts,
+      healthTransitions: state.healthTransitions,
+      models: state.models,
       fallbackModel: config.fallbackModel,
       gpu: {
         utilization: state.gpuUtilization,
         vramUsedMB: state.vramUsage?.usedMB,
         vramTotalMB: state.vramUsage?.totalMB,
+        sampledAt: state.gpuSampledAt || undefined,
+      },
+      system: state.system && {
+        ...state.system,
+        pressure: describeSystemPressure(state.systemLoad, config),
       },
       routing: {
         autoRoute: config.autoRoute,
         totalDecisions: state.decisionsCount,
-        primarySelections: state.primarySelections,
-        sidecarSelections: state.sidecarSelections,
-        fallbackSelections: state.fallbackSelections,
+        selectionsBySource: state.selectionsBySource,
+        selectionsByModel: state.selectionsByModel,
         lastDecision: state.lastDecision,
       },
+      pulls: pulls.list(),
+      eviction: {
+        enabled: config.evictionEnabled,
+        pinnedModels: config.pinnedModels,
+        recent: eviction.recent(),
+      },
+      sessions: {
+        enabled: config.sessionStickiness,
+        ttlMin: config.sessionTtlMin,
+        active: sessions.list(),
+      },
+      benchmarks: {
+        priors: config.benchmarkPriors,
+        run: benchmarks.current(),
+        results: benchmarks.list(),
+      },
+      schedule: {
+        running: scheduler.running,
+        upcoming: scheduler.upcoming(),
+        recent: scheduler.recent(),
+        errors: scheduler.errors,
+      },
       lastHealthCheck: state.lastHealthCheck,
     });
   };
@@ -54,11 +86,29 @@ export function createStatusMethod(
 export function createRouteMethod(router: ModelRouter) {
   return async (opts: MethodOpts): Promise<void> => {
     const params = opts.params ?? {};
+    const complexity =
+      typeof params.prompt === "string"
+        ? defaultComplexityScorer({
+            prompt: params.prompt,
+            messages: Array.isArray(params.messages) ? params.messages : undefined,
+          })
+        : undefined;
+    // dryRun: decide without counting or recording (and always explain);
+    // explain alone attaches the trace to a real decision
+    const dryRun = params.dryRun === true;
+    const explain = params.explain === true || dryRun;
     const decision = await router.selectModel({
+      complexity,
       messageLength: typeof params.messageLength === "number" ? params.messageLength : undefined,
       conversationDepth: typeof params.conversationDepth === "number" ? params.conversationDepth : undefined,
       forceModel: typeof params.forceModel === "string" ? params.forceModel : undefined,
-    });
+      role: typeof params.role === "string" ? params.role : undefined,
+      sessionKey: typeof params.sessionKey === "string" ? params.sessionKey : undefined,
+      agentId: typeof params.agentId === "string" ? params.agentId : undefined,
+      workspaceDir: typeof params.workspaceDir === "string" ? params.workspaceDir : undefined,
+      messageProvider:
+        typeof params.messageProvider === "string" ? params.messageProvider : undefined,
+    }, { dryRun, explain });
     opts.reply(decision);
   };
 }
@@ -70,9 +120,171 @@ export function createRefreshMethod(router: ModelRouter) {
     opts.reply({
       success: true,
       ollamaReachable: state.ollamaReachable,
-      primaryPulled: state.primaryStatus.pulled,
-      sidecarPulled: state.sidecarStatus.pulled,
+      hosts: state.hosts.map((h) => ({
+        name: h.name,
+        reachable: h.reachable,
+        health: h.health.state,
+      })),
+      models: state.models.map((m) => ({ name: m.name, pulled: m.pulled, loaded: m.loaded })),
       lastHealthCheck: state.lastHealthCheck,
     });
   };
 }
+
+export function createHistoryMethod(history: DecisionHistory) {
+  return async (opts: MethodOpts): Promise<void> => {
+    const page = await history.query(parseHistoryQuery(opts.params ?? {}));
+    opts.reply(page);
+  };
+}
+
+export function createBenchMethod(benchmarks: BenchmarkRunner) {
+  return async (opts: MethodOpts): Promise<void> => {
+    const params = opts.params ?? {};
+    const models = Array.isArray(params.models)
+      ? params.models.filter((m): m is string => typeof m === "string")
+      : typeof params.model === "string"
+        ? [params.model]
+        : undefined;
+
+    try {
+      const { run, done } = benchmarks.start({
+        models,
+        host: typeof params.host === "string" ? params.host : undefined,
+        cold: params.cold === true,
+      });
+      // wait: true blocks until every model is measured; otherwise reply with the started run
+      const result = params.wait === true ? await done : run;
+      opts.reply({ success: true, run: result });
+    } catch (err) {
+      opts.reply({ success: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+}
+
+export function createDoctorMethod(router: ModelRouter, config: PluginConfig) {
+  return async (opts: MethodOpts): Promise<void> => {
+    opts.reply(await runDiagnostics(router, config));
+  };
+}
+
+export function createConfigGetMethod(runtimeConfig: RuntimeConfig) {
+  return async (opts: MethodOpts): Promise<void> => {
+    const params = opts.params ?? {};
+    const keys = Array.isArray(params.keys)
+      ? params.keys.filter((k): k is string => typeof k === "string")
+      : typeof params.key === "string"
+        ? [params.key]
+        : [];
+    opts.reply({ success: true, ...runtimeConfig.get(keys) });
+  };
+}
+
+export function createConfigSetMethod(runtimeConfig: RuntimeConfig) {
+  return async (opts: MethodOpts): Promise<void> => {
+    const params = opts.params ?? {};
+    // Either { values: { key: value, ... } } or { key, value }; null resets a key
+    let patch: Record<string, unknown>;
+    if (params.values && typeof params.values === "object" && !Array.isArray(params.values)) {
+      patch = params.values as Record<string, unknown>;
+    } else if (typeof params.key === "string" && "value" in params) {
+      patch = { [params.key]: params.value };
+    } else {
+      opts.reply({ success: false, error: "params.values (object) or params.key + params.value is required" });
+      return;
+    }
+
+    try {
+      opts.reply(await runtimeConfig.set(patch));
+    } catch (err) {
+      opts.reply({ success: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+}
+
+const DEFAULT_REPLAY_LIMIT = 1000;
+
+export function createSimulateMethod(
+  runtimeConfig: RuntimeConfig,
+  config: PluginConfig,
+  history: DecisionHistory
+) {
+  return async (opts: MethodOpts): Promise<void> => {
+    const params = opts.params ?? {};
+    // params.config: settings to try, applied on top of the current config
+    const patch =
+      params.config && typeof params.config === "object" && !Array.isArray(params.config)
+        ? (params.config as Record<string, unknown>)
+        : {};
+    const preview = runtimeConfig.preview(patch);
+    if (!preview.success) {
+      opts.reply({ success: false, errors: preview.errors });
+      return;
+    }
+
+    // Either caller-supplied records or the recorded decision history
+    let records: ReplayRecord[];
+    let skipped = 0;
+    if (params.records !== undefined) {
+      const parsed = parseReplayRecords(params.records);
+      if (parsed.errors.length > 0) {
+        opts.reply({ success: false, error: parsed.errors.join("; ") });
+        return;
+      }
+      records = parsed.records;
+    } else {
+      const finite = (value: unknown) =>
+        value === undefined || (typeof value === "number" && Number.isFinite(value));
+      if (!finite(params.since) || !finite(params.until)) {
+        opts.reply({ success: false, error: "params.since and params.until must be timestamps (ms)" });
+        return;
+      }
+      if (
+        params.limit !== undefined &&
+        !(typeof params.limit === "number" && Number.isInteger(params.limit) && params.limit > 0)
+      ) {
+        opts.reply({ success: false, error: "params.limit must be a positive integer" });
+        return;
+      }
+      const since = (params.since as number | undefined) ?? 0;
+      const until = (params.until as number | undefined) ?? Infinity;
+      const limit = (params.limit as number | undefined) ?? DEFAULT_REPLAY_LIMIT;
+      const entries = (await history.since(since)).filter((e) => e.timestamp <= until);
+      ({ records, skipped } = recordsFromHistory(entries.slice(-limit)));
+    }
+
+    try {
+      const report = await replayDecisions(
+        records,
+        config,
+        preview.config,
+        typeof params.maxChanges === "number" ? params.maxChanges : undefined
+      );
+      opts.reply({ success: true, skipped, ...report });
+    } catch (err) {
+      opts.reply({ success: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+}
+
+export function createPullMethod(pulls: PullManager) {
+  return async (opts: MethodOpts): Promise<void> => {
+    const params = opts.params ?? {};
+    if (typeof params.model !== "string" || params.model.length === 0) {
+      opts.reply({ success: false, error: "params.model is required" });
+      return;
+    }
+
+    try {
+      const { job, done } = pulls.start(
+        params.model.replace(/^ollama\//, ""),
+        typeof params.host === "string" ? params.host : undefined
+      );
+      // wait: true blocks until the pull finishes; otherwise reply with the started job
+      const result = params.wait === true ? await done : job;
+      opts.reply({ success: result.status !== "failed", job: result });
+    } catch (err) {
+      opts.reply({ success: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+}
@@ -3,7 +3,7 @@
  * Detects VRAM capacity for intelligent model routing decisions.
  */
 
-import { execSync } from "node:child_process";
+import { execFile } from "node:child_process";
 import { platform } from "node:os";
 
 export type GpuInfo = {
@@ -21,25 +21,48 @@ export type SystemMemory = {
   freeBytes: number;
 };
 
-function tryExec(cmd: string): string | null {
-  try {
-    return execSync(cmd, { encoding: "utf-8", timeout: 10_000, stdio: ["pipe", "pipe", "pipe"] }).trim();
-  } catch {
-    return null;
-  }
+/**
+ * Run a command in a child process, resolving to trimmed stdout, or null if
+ * it fails or doesn't finish within `timeoutMs`. The event loop never waits
+ * on the command; a child that hangs is killed and abandoned.
+ *
+ * Arguments are split on whitespace and the tool is started without a
+ * shell (no quoting or redirection), so the kill reaches the tool itself
+ * rather than a shell wrapped around it. Stderr is discarded.
+ */
+export function runCommand(cmd: string, timeoutMs: number = 10_000): Promise<string | null> {
+  return new Promise((resolve) => {
+    let settled = false;
+    const finish = (value: string | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve(value);
+    };
+    const [file, ...args] = cmd.trim().split(/\s+/);
+    const child = execFile(file, args, { encoding: "utf-8", windowsHide: true }, (err, stdout) => {
+      finish(err ? null : stdout.trim());
+    });
+    const timer = setTimeout(() => {
+      child.kill("SIGKILL");
+      finish(null);
+    }, timeoutMs);
+  });
 }
 
 /**
- * Detect discrete GPUs and their VRAM.
+ * Detect discrete GPUs and their VRAM. Each probe is killed after
+ * `timeoutMs` (default 10s).
  */
-export function detectGpus(): GpuInfo[] {
+export async function detectGpus(timeoutMs?: number): Promise<GpuInfo[]> {
   const gpus: GpuInfo[] = [];
   const os = platform();
 
   if (os === "win32" || os === "linux") {
     // Try nvidia-smi first
-    const nvOut = tryExec(
-      "nvidia-smi --query-gpu=name,memory.total,driver_version --format=csv,noheader,nounits"
+    const nvOut = await runCommand(
+      "nvidia-smi --query-gpu=name,memory.total,driver_version --format=csv,noheader,nounits",
+      timeoutMs
     );
     if (nvOut) {
       for (const line of nvOut.split("\n")) {
@@ -59,7 +82,7 @@ export function detectGpus(): GpuInfo[] {
 
     // Try AMD on Linux
     if (os === "linux" && gpus.length === 0) {
-      const amdOut = tryExec("rocm-smi --showmeminfo vram --csv 2>/dev/null");
+      const amdOut = await runCommand("rocm-smi --showmeminfo vram --csv", timeoutMs);
       if (amdOut) {
         const lines = amdOut.split("\n").filter((l) => l.includes("Total"));
         for (const line of lines) {
@@ -78,9 +101,7 @@ export function detectGpus(): GpuInfo[] {
     }
   } else if (os === "darwin") {
     // macOS: check for Apple Silicon unified memory or discrete GPU
-    const spOut = tryExec(
-      "system_profiler SPDisplaysDataType 2>/dev/null"
-    );
+    const spOut = await runCommand("system_profiler SPDisplaysDataType", timeoutMs);
     if (spOut) {
       const chipMatch = spOut.match(/Chipset Model:\s*(.+)/i);
       const vramMatch = spOut.match(/VRAM.*?:\s*(\d+)\s*(MB|GB)/i);
@@ -108,16 +129,17 @@ export function detectGpus(): GpuInfo[] {
 }
 
 /**
- * Get system memory info.
+ * Get system memory info, killing each probe after `timeoutMs` (default 10s).
  */
-export function getSystemMemory(): SystemMemory {
+export async function getSystemMemory(timeoutMs?: number): Promise<SystemMemory> {
   const os = platform();
   let totalMB = 0;
   let freeMB = 0;
 
   if (os === "win32") {
-    const wmicOut = tryExec(
-      'wmic OS get TotalVisibleMemorySize,FreePhysicalMemory /VALUE'
+    const wmicOut = await runCommand(
+      'wmic OS get TotalVisibleMemorySize,FreePhysicalMemory /VALUE',
+      timeoutMs
     );
     if (wmicOut) {
       const totalMatch = wmicOut.match(/TotalVisibleMemorySize=(\d+)/);
@@ -127,7 +149,7 @@ export function getSystemMemory(): SystemMemory {
     }
   } else {
     // Linux / macOS
-    const memOut = tryExec("free -m 2>/dev/null");
+    const memOut = await runCommand("free -m", timeoutMs);
     if (memOut) {
       const memLine = memOut.split("\n").find((l) => l.startsWith("Mem:"));
       if (memLine) {
@@ -137,19 +159,12 @@ export function getSystemMemory(): SystemMemory {
       }
     } else {
       // macOS fallback
-      const sysctl = tryExec("sysctl -n hw.memsize 2>/dev/null");
+      const sysctl = await runCommand("sysctl -n hw.memsize", timeoutMs);
       if (sysctl) {
         totalMB = Math.round(parseInt(sysctl, 10) / 1024 / 1024);
       }
-      const vmStat = tryExec("vm_stat 2>/dev/null");
-      if (vmStat) {
-        const freePages = vmStat.match(/Pages free:\s+(\d+)/);
-        const inactivePages = vmStat.match(/Pages inactive:\s+(\d+)/);
-        const pageSize = 4096;
-        const free = parseInt(freePages?.[1] ?? "0", 10) * pageSize;
-        const inactive = parseInt(inactivePages?.[1] ?? "0", 10) * pageSize;
-        freeMB = Math.round((free + inactive) / 1024 / 1024);
-      }
+      const vmStat = await runCommand("vm_stat", timeoutMs);
+      if (vmStat) freeMB = parseVmStatAvailableMB(vmStat) ?? 0;
     }
   }
 
@@ -162,27 +177,16 @@ export function getSystemMemory(): SystemMemory {
 }
 
 /**
- * Get NVIDIA GPU utilization percentage (0-100).
- * Returns null if nvidia-smi is unavailable.
- */
-export function getNvidiaGpuUtilization(): number | null {
-  const out = tryExec(
-    "nvidia-smi --query-gpu=utilization.gpu --format=csv,noheader,nounits"
-  );
-  if (!out) return null;
-  const val = parseInt(out.split("\n")[0].trim(), 10);
-  return isNaN(val) ? null : val;
-}
-
-/**
- * Get NVIDIA VRAM usage in MB.
+ * Memory macOS can hand out without swapping, from vm_stat: free plus
+ * inactive pages. Wired and compressed memory count as used, and
+ * os.freemem() alone (free pages only) reads close to full on a healthy Mac.
  */
-export function getNvidiaVramUsage(): { usedMB: number; totalMB: number } | null {
-  const out = tryExec(
-    "nvidia-smi --query-gpu=memory.used,memory.total --format=csv,noheader,nounits"
-  );
-  if (!out) return null;
-  const parts = out.split("\n")[0].split(",").map((p) => parseInt(p.trim(), 10));
-  if (parts.length < 2 || isNaN(parts[0]) || isNaN(parts[1])) return null;
-  return { usedMB: parts[0], totalMB: parts[1] };
+export function parseVmStatAvailableMB(vmStat: string): number | null {
+  const pageSize = parseInt(vmStat.match(/page size of (\d+) bytes/)?.[1] ?? "4096", 10);
+  const freePages = vmStat.match(/Pages free:\s+(\d+)/);
+  const inactivePages = vmStat.match(/Pages inactive:\s+(\d+)/);
+  if (!freePages) return null;
+  const free = parseInt(freePages[1], 10) * pageSize;
+  const inactive = parseInt(inactivePages?.[1] ?? "0", 10) * pageSize;
+  return Math.round((free + inactive) / 1024 / 1024);
 }
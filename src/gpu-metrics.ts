@@ -0,0 +1,362 @@
+/**
+ * Runtime GPU metrics (VRAM usage and utilization) from vendor tools.
+ *
+ * Providers:
+ * - nvidia-smi (NVIDIA, Windows/Linux)
+ * - amdgpu sysfs (AMD, Linux): mem_info_vram_used, mem_info_vram_total and
+ *   gpu_busy_percent under /sys/class/drm/cardN/device, no tools needed
+ * - rocm-smi (AMD, Linux) when sysfs isn't readable
+ * - ioreg (Apple Silicon): unified memory in use by the GPU
+ *
+ * Commands go through a CommandRunner and sysfs reads through a root
+ * directory, so providers can be fed fixture output and fake sysfs trees.
+ *
+ * Sampling is asynchronous (commands run in child processes with a timeout).
+ * GpuMetricsCache holds the latest sample so routing never waits on a probe.
+ */
+
+import { readdir, readFile } from "node:fs/promises";
+import { platform } from "node:os";
+import { join } from "node:path";
+import type { GpuAggregation } from "./config.js";
+import { runCommand, type GpuInfo } from "./gpu-detect.js";
+
+export type GpuDeviceMetrics = {
+  index: number;
+  /** Stable device id (NVIDIA GPU UUID, AMD unique id) when reported */
+  uuid?: string;
+  name?: string;
+  /** Utilization percent, 0-100 (null when not reported) */
+  utilization: number | null;
+  vramUsedMB: number | null;
+  vramTotalMB: number | null;
+};
+
+export type GpuMetricsProvider = {
+  readonly name: string;
+  /** One entry per GPU; empty when the source is unavailable */
+  sample(): Promise<GpuDeviceMetrics[]>;
+};
+
+/** Runs a command (no shell), resolving to trimmed stdout or null on failure */
+export type CommandRunner = (cmd: string) => Promise<string | null>;
+
+const MB = 1024 * 1024;
+const AMD_PCI_VENDOR = "0x1002";
+
+export class NvidiaSmiProvider implements GpuMetricsProvider {
+  readonly name = "nvidia-smi";
+
+  private run: CommandRunner;
+
+  constructor(run: CommandRunner = runCommand) {
+    this.run = run;
+  }
+
+  async sample(): Promise<GpuDeviceMetrics[]> {
+    const out = await this.run(
+      "nvidia-smi --query-gpu=index,uuid,name,utilization.gpu,memory.used,memory.total --format=csv,noheader,nounits"
+    );
+    if (!out) return [];
+    const devices: GpuDeviceMetrics[] = [];
+    for (const line of out.split("\n")) {
+      const parts = line.split(",").map((p) => p.trim());
+      if (parts.length < 6) continue;
+      devices.push({
+        index: parseNumber(parts[0]) ?? devices.length,
+        uuid: parts[1] || undefined,
+        name: parts[2],
+        utilization: parseNumber(parts[3]),
+        vramUsedMB: parseNumber(parts[4]),
+        vramTotalMB: parseNumber(parts[5]),
+      });
+    }
+    return devices;
+  }
+}
+
+/**
+ * AMD GPUs through rocm-smi's JSON output, keyed by card ("card0", ...).
+ */
+export class RocmSmiProvider implements GpuMetricsProvider {
+  readonly name = "rocm-smi";
+
+  private run: CommandRunner;
+
+  constructor(run: CommandRunner = runCommand) {
+    this.run = run;
+  }
+
+  async sample(): Promise<GpuDeviceMetrics[]> {
+    const out = await this.run("rocm-smi --showuse --showmeminfo vram --showuniqueid --json");
+    if (!out) return [];
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(out);
+    } catch {
+      return [];
+    }
+    if (typeof parsed !== "object" || parsed === null) return [];
+
+    const devices: GpuDeviceMetrics[] = [];
+    for (const [card, fields] of Object.entries(parsed as Record<string, unknown>)) {
+      const match = card.match(/^card(\d+)$/);
+      if (!match || typeof fields !== "object" || fields === null) continue;
+      const text = (pattern: RegExp) => {
+        const key = Object.keys(fields).find((k) => pattern.test(k));
+        return key ? String((fields as Record<string, unknown>)[key]) : null;
+      };
+      const field = (pattern: RegExp) => parseNumber(text(pattern));
+      const used = field(/^VRAM Total Used Memory \(B\)$/i);
+      const total = field(/^VRAM Total Memory \(B\)$/i);
+      const uuid = text(/^Unique ID$/i);
+      devices.push({
+        index: parseInt(match[1], 10),
+        uuid: uuid && uuid !== "N/A" ? uuid : undefined,
+        name: card,
+        utilization: field(/^GPU use \(%\)$/i),
+        vramUsedMB: used === null ? null : Math.round(used / MB),
+        vramTotalMB: total === null ? null : Math.round(total / MB),
+      });
+    }
+    return devices.sort((a, b) => a.index - b.index);
+  }
+}
+
+/**
+ * AMD GPUs through the amdgpu driver's sysfs files.
+ */
+export class AmdSysfsProvider implements GpuMetricsProvider {
+  readonly name = "amdgpu-sysfs";
+
+  private root: string;
+
+  constructor(root: string = "/sys/class/drm") {
+    this.root = root;
+  }
+
+  async sample(): Promise<GpuDeviceMetrics[]> {
+    let cards: string[];
+    try {
+      // Connectors (card0-DP-1) and render nodes share the directory
+      cards = (await readdir(this.root)).filter((entry) => /^card\d+$/.test(entry));
+    } catch {
+      return [];
+    }
+
+    const devices: GpuDeviceMetrics[] = [];
+    for (const card of cards) {
+      const device = join(this.root, card, "device");
+      if ((await readSysfs(join(device, "vendor"))) !== AMD_PCI_VENDOR) continue;
+      const used = parseNumber(await readSysfs(join(device, "mem_info_vram_used")));
+      const total = parseNumber(await readSysfs(join(device, "mem_info_vram_total")));
+      if (used === null && total === null) continue;
+      devices.push({
+        index: parseInt(card.slice("card".length), 10),
+        uuid: (await readSysfs(join(device, "unique_id"))) ?? undefined,
+        name: card,
+        utilization: parseNumber(await readSysfs(join(device, "gpu_busy_percent"))),
+        vramUsedMB: used === null ? null : Math.round(used / MB),
+        vramTotalMB: total === null ? null : Math.round(total / MB),
+      });
+    }
+    return devices.sort((a, b) => a.index - b.index);
+  }
+}
+
+/**
+ * Apple Silicon through ioreg's IOAccelerator statistics. The GPU shares
+ * system memory, so the total is physical RAM.
+ */
+export class AppleIoregProvider implements GpuMetricsProvider {
+  readonly name = "ioreg";
+
+  private run: CommandRunner;
+
+  constructor(run: CommandRunner = runCommand) {
+    this.run = run;
+  }
+
+  async sample(): Promise<GpuDeviceMetrics[]> {
+    const out = await this.run("ioreg -r -d 1 -w 0 -c IOAccelerator");
+    if (!out) return [];
+    const stats = out.match(/"PerformanceStatistics"\s*=\s*\{([^}]*)\}/);
+    if (!stats) return [];
+    const stat = (key: string) => {
+      const match = stats[1].match(new RegExp(`"${key}"\\s*=\\s*(\\d+)`));
+      return match ? parseInt(match[1], 10) : null;
+    };
+    const used = stat("In use system memory");
+    const memsize = parseNumber(await this.run("sysctl -n hw.memsize"));
+    const model = out.match(/"model"\s*=\s*"([^"]+)"/);
+    return [
+      {
+        index: 0,
+        name: model?.[1],
+        utilization: stat("Device Utilization %"),
+        vramUsedMB: used === null ? null : Math.round(used / MB),
+        vramTotalMB: memsize === null ? null : Math.round(memsize / MB),
+      },
+    ];
+  }
+}
+
+export type ProviderSelectionOptions = {
+  run?: CommandRunner;
+  sysfsRoot?: string;
+  platform?: NodeJS.Platform;
+};
+
+/**
+ * Pick the provider for this machine: sources for the detected GPU vendors
+ * first, then the rest for the OS (AMD boxes without rocm-smi aren't seen by
+ * detectGpus). The first provider that reports VRAM wins; null when none does.
+ */
+export async function selectGpuMetricsProvider(
+  gpus: GpuInfo[],
+  options: ProviderSelectionOptions = {}
+): Promise<GpuMetricsProvider | null> {
+  const os = options.platform ?? platform();
+  const nvidia = new NvidiaSmiProvider(options.run);
+  const amd: GpuMetricsProvider[] = [
+    new AmdSysfsProvider(options.sysfsRoot),
+    new RocmSmiProvider(options.run),
+  ];
+  const apple = new AppleIoregProvider(options.run);
+
+  const candidates: GpuMetricsProvider[] =
+    os === "darwin" ? [apple] : os === "linux" ? [nvidia, ...amd] : os === "win32" ? [nvidia] : [];
+  const vendors = new Set(gpus.map((g) => g.vendor));
+  const preferred = (p: GpuMetricsProvider) =>
+    (vendors.has("NVIDIA") && p === nvidia) ||
+    (vendors.has("AMD") && amd.includes(p)) ||
+    (vendors.has("Apple") && p === apple);
+  candidates.sort((a, b) => Number(preferred(b)) - Number(preferred(a)));
+
+  for (const provider of candidates) {
+    const devices = await provider.sample();
+    if (devices.some((d) => d.vramUsedMB !== null && d.vramTotalMB !== null)) return provider;
+  }
+  return null;
+}
+
+export type GpuSnapshot = {
+  devices: GpuDeviceMetrics[];
+  /** When the devices were last sampled successfully (0 = never) */
+  sampledAt: number;
+};
+
+/**
+ * The latest GPU sample. Concurrent refreshes share one in-flight probe,
+ * and current() never waits. A failed or timed-out sample keeps the previous
+ * devices (and their older sampledAt), so stale readings are visible as such.
+ */
+export class GpuMetricsCache {
+  private provider: GpuMetricsProvider | null;
+  private snapshot: GpuSnapshot = { devices: [], sampledAt: 0 };
+  private inFlight: Promise<GpuSnapshot> | null = null;
+
+  constructor(provider: GpuMetricsProvider | null = null) {
+    this.provider = provider;
+  }
+
+  /**
+   * Set the provider once hardware detection has picked one.
+   */
+  setProvider(provider: GpuMetricsProvider | null): void {
+    this.provider = provider;
+  }
+
+  get providerName(): string | undefined {
+    return this.provider?.name;
+  }
+
+  current(): GpuSnapshot {
+    return this.snapshot;
+  }
+
+  refresh(): Promise<GpuSnapshot> {
+    if (this.inFlight) return this.inFlight;
+    const provider = this.provider;
+    if (!provider) return Promise.resolve(this.snapshot);
+
+    this.inFlight = provider
+      .sample()
+      .then((devices) => {
+        if (devices.length > 0) this.snapshot = { devices, sampledAt: Date.now() };
+        return this.snapshot;
+      })
+      .catch(() => this.snapshot)
+      .finally(() => {
+        this.inFlight = null;
+      });
+    return this.inFlight;
+  }
+}
+
+export type AggregatedGpuMetrics = {
+  vram: { usedMB: number; totalMB: number } | null;
+  utilization: number | null;
+  /** Index of the GPU the values came from (absent for sum) */
+  device?: number;
+};
+
+/**
+ * Combine per-GPU metrics into the single VRAM reading the router checks
+ * against gpuMemoryThreshold. "any" reports the fullest GPU and "all" the
+ * emptiest, so the threshold check means "any/all GPUs over". GPUs without
+ * VRAM readings are ignored.
+ */
+export function aggregateGpuMetrics(
+  devices: GpuDeviceMetrics[],
+  strategy: GpuAggregation,
+  deviceIndex = 0
+): AggregatedGpuMetrics {
+  const withVram = devices.filter(
+    (d): d is GpuDeviceMetrics & { vramUsedMB: number; vramTotalMB: number } =>
+      d.vramUsedMB !== null && d.vramTotalMB !== null && d.vramTotalMB > 0
+  );
+  const single = (d: GpuDeviceMetrics | undefined): AggregatedGpuMetrics => ({
+    vram:
+      d && d.vramUsedMB !== null && d.vramTotalMB !== null
+        ? { usedMB: d.vramUsedMB, totalMB: d.vramTotalMB }
+        : null,
+    utilization: d?.utilization ?? null,
+    device: d?.index,
+  });
+
+  if (strategy === "device") return single(devices.find((d) => d.index === deviceIndex));
+  if (withVram.length === 0) return { vram: null, utilization: null };
+
+  if (strategy === "sum") {
+    const utilizations = devices.map((d) => d.utilization).filter((u): u is number => u !== null);
+    return {
+      vram: {
+        usedMB: withVram.reduce((sum, d) => sum + d.vramUsedMB, 0),
+        totalMB: withVram.reduce((sum, d) => sum + d.vramTotalMB, 0),
+      },
+      utilization:
+        utilizations.length > 0
+          ? Math.round(utilizations.reduce((sum, u) => sum + u, 0) / utilizations.length)
+          : null,
+    };
+  }
+
+  const ratio = (d: { vramUsedMB: number; vramTotalMB: number }) => d.vramUsedMB / d.vramTotalMB;
+  const sorted = [...withVram].sort((a, b) => ratio(b) - ratio(a));
+  return single(strategy === "any" ? sorted[0] : sorted[sorted.length - 1]);
+}
+
+async function readSysfs(path: string): Promise<string | null> {
+  try {
+    return (await readFile(path, "utf-8")).trim();
+  } catch {
+    return null;
+  }
+}
+
+function parseNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  const n = Number(value.trim());
+  return value.trim() !== "" && Number.isFinite(n) ? n : null;
+}
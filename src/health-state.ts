@@ -0,0 +1,275 @@
+/**
+ * Host health state machine and circuit breaker.
+ *
+ * HealthStateMachine smooths probe results so one slow response doesn't
+ * flip routing:
+ *
+ *   healthy --failure/partial--> degraded --N failures--> down
+ *   down --success--> recovering --M successes--> healthy
+ *   recovering --failure--> down
+ *
+ * The first probe sets the state directly, so a host that is up at startup
+ * doesn't have to work its way through "recovering". While down, probes back off exponentially. Hosts are routable when
+ * healthy or degraded.
+ *
+ * CircuitBreaker guards an operation (e.g. warm-up requests): after N
+ * consecutive failures it opens and rejects calls for a cooldown, then lets
+ * a single trial through (half-open).
+ */
+
+export type HealthState = "healthy" | "degraded" | "down" | "recovering";
+
+export type HealthPolicy = {
+  /** Consecutive failed probes before a host is marked down */
+  failureThreshold: number;
+  /** Consecutive successful probes before a recovering host is healthy again */
+  recoveryThreshold: number;
+  /** First backoff delay while down; doubles per failed probe */
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+};
+
+export type ProbeOutcome = "success" | "partial" | "failure";
+
+export type HealthTransition = {
+  from: HealthState;
+  to: HealthState;
+  reason: string;
+  timestamp: number;
+};
+
+export type HealthSnapshot = {
+  state: HealthState;
+  consecutiveFailures: number;
+  consecutiveSuccesses: number;
+  since: number;
+  nextProbeAt: number;
+  lastError?: string;
+};
+
+export const DEFAULT_HEALTH_POLICY: HealthPolicy = {
+  failureThreshold: 3,
+  recoveryThreshold: 2,
+  baseBackoffMs: 30_000,
+  maxBackoffMs: 300_000,
+};
+
+export class HealthStateMachine {
+  private policy: HealthPolicy;
+  private state: HealthState = "down";
+  private consecutiveFailures = 0;
+  private consecutiveSuccesses = 0;
+  private since = Date.now();
+  private nextProbeAt = 0;
+  private downProbes = 0;
+  private lastError?: string;
+  private probed = false;
+  private listeners: ((t: HealthTransition) => void)[] = [];
+
+  constructor(policy: HealthPolicy) {
+    this.policy = policy;
+  }
+
+  get current(): HealthState {
+    return this.state;
+  }
+
+  /**
+   * Hosts in these states receive traffic.
+   */
+  get routable(): boolean {
+    return this.state === "healthy" || this.state === "degraded";
+  }
+
+  snapshot(): HealthSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      consecutiveSuccesses: this.consecutiveSuccesses,
+      since: this.since,
+      nextProbeAt: this.nextProbeAt,
+      lastError: this.lastError,
+    };
+  }
+
+  onTransition(listener: (t: HealthTransition) => void): void {
+    this.listeners.push(listener);
+  }
+
+  setPolicy(policy: HealthPolicy): void {
+    this.policy = policy;
+  }
+
+  /**
+   * False while a down host is backing off.
+   */
+  shouldProbe(now: number = Date.now()): boolean {
+    return now >= this.nextProbeAt;
+  }
+
+  record(outcome: ProbeOutcome, error?: string, now: number = Date.now()): void {
+    if (outcome === "failure") {
+      this.consecutiveFailures++;
+      this.consecutiveSuccesses = 0;
+      this.lastError = error;
+    } else {
+      this.consecutiveSuccesses++;
+      this.consecutiveFailures = 0;
+      if (outcome === "partial") this.lastError = error;
+    }
+
+    if (!this.probed) {
+      this.probed = true;
+      const initial: HealthState =
+        outcome === "success" ? "healthy" : outcome === "partial" ? "degraded" : "down";
+      this.transition(initial, `initial ${describe(outcome, error)}`, now);
+    } else {
+      this.advance(outcome, error, now);
+    }
+
+    // Exponential backoff between probes while down
+    if (this.state === "down") {
+      const delay = Math.min(
+        this.policy.baseBackoffMs * 2 ** this.downProbes,
+        this.policy.maxBackoffMs
+      );
+      this.downProbes++;
+      this.nextProbeAt = now + delay;
+    } else {
+      this.downProbes = 0;
+      this.nextProbeAt = 0;
+    }
+  }
+
+  private advance(outcome: ProbeOutcome, error: string | undefined, now: number): void {
+    switch (this.state) {
+      case "healthy":
+        if (outcome === "failure" && this.consecutiveFailures >= this.policy.failureThreshold) {
+          this.transition("down", describe(outcome, error), now);
+        } else if (outcome !== "success") {
+          this.transition("degraded", describe(outcome, error), now);
+        }
+        break;
+      case "degraded":
+        if (outcome === "success") {
+          this.transition("healthy", "probe succeeded", now);
+        } else if (this.consecutiveFailures >= this.policy.failureThreshold) {
+          this.transition("down", `${this.consecutiveFailures} consecutive failures (${error ?? "unknown"})`, now);
+        }
+        break;
+      case "down":
+        if (outcome !== "failure") {
+          this.transition("recovering", "probe succeeded", now);
+          if (this.consecutiveSuccesses >= this.policy.recoveryThreshold) {
+            this.transition("healthy", `${this.consecutiveSuccesses} consecutive successes`, now);
+          }
+        }
+        break;
+      case "recovering":
+        if (outcome === "failure") {
+          this.transition("down", `failed while recovering (${error ?? "unknown"})`, now);
+        } else if (this.consecutiveSuccesses >= this.policy.recoveryThreshold) {
+          this.transition("healthy", `${this.consecutiveSuccesses} consecutive successes`, now);
+        }
+        break;
+    }
+  }
+
+  private transition(to: HealthState, reason: string, now: number): void {
+    if (to === this.state) return;
+    const t: HealthTransition = { from: this.state, to, reason, timestamp: now };
+    this.state = to;
+    this.since = now;
+    for (const listener of this.listeners) listener(t);
+  }
+}
+
+function describe(outcome: ProbeOutcome, error?: string): string {
+  const label =
+    outcome === "success"
+      ? "probe succeeded"
+      : outcome === "partial"
+        ? "partial probe failure"
+        : "probe failed";
+  return error ? `${label} (${error})` : label;
+}
+
+export type BreakerState = "closed" | "open" | "half-open";
+
+export type BreakerSnapshot = {
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt?: number;
+};
+
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private state: BreakerState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(failureThreshold: number, cooldownMs: number) {
+    this.failureThreshold = failureThreshold;
+    this.cooldownMs = cooldownMs;
+  }
+
+  /**
+   * Change the threshold and cooldown; the current state is kept.
+   */
+  configure(failureThreshold: number, cooldownMs: number): void {
+    this.failureThreshold = failureThreshold;
+    this.cooldownMs = cooldownMs;
+  }
+
+  snapshot(): BreakerSnapshot {
+    this.refresh();
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+    };
+  }
+
+  /**
+   * Run `fn` unless the breaker is open. `fn` resolves true on success.
+   * Returns false without calling `fn` while open.
+   */
+  async call(fn: () => Promise<boolean>): Promise<boolean> {
+    this.refresh();
+    if (this.state === "open") return false;
+    if (this.state === "half-open") {
+      if (this.trialInFlight) return false;
+      this.trialInFlight = true;
+    }
+
+    try {
+      const ok = await fn();
+      this.recordResult(ok);
+      return ok;
+    } finally {
+      this.trialInFlight = false;
+    }
+  }
+
+  private recordResult(ok: boolean): void {
+    if (ok) {
+      this.state = "closed";
+      this.consecutiveFailures = 0;
+      this.openedAt = undefined;
+      return;
+    }
+    this.consecutiveFailures++;
+    if (this.state === "half-open" || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+
+  private refresh(): void {
+    if (this.state === "open" && this.openedAt !== undefined) {
+      if (Date.now() - this.openedAt >= this.cooldownMs) this.state = "half-open";
+    }
+  }
+}
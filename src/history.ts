@@ -0,0 +1,211 @@
+/**
+ * Persistent routing decision history.
+ * Appends every RouteDecision to a rotating JSONL log in the plugin state
+ * directory and answers paged, filtered queries over it.
+ */
+
+import { appendFile, mkdir, readFile, rename, rm, stat } from "node:fs/promises";
+import { join } from "node:path";
+import type { HealthSnapshot, RouteContext, RouteDecision, RouteSource } from "./router.js";
+
+export type HistoryEntry = RouteDecision & {
+  sessionKey?: string;
+  agentId?: string;
+  context: Omit<RouteContext, "sessionKey" | "agentId">;
+  /** Router state the decision was made in (absent in older entries) */
+  health?: HealthSnapshot;
+};
+
+export type HistoryQuery = {
+  model?: string;
+  source?: RouteSource;
+  sessionKey?: string;
+  agentId?: string;
+  since?: number;
+  until?: number;
+  offset?: number;
+  limit?: number;
+};
+
+export type HistoryPage = {
+  total: number;
+  offset: number;
+  limit: number;
+  entries: HistoryEntry[];
+};
+
+const LOG_FILE = "decision-history.jsonl";
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+export class DecisionHistory {
+  private dir: string;
+  private maxFileBytes: number;
+  private maxFiles: number;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(dir: string, opts: { maxFileMB: number; maxFiles: number }) {
+    this.dir = dir;
+    this.maxFileBytes = opts.maxFileMB * 1024 * 1024;
+    this.maxFiles = Math.max(1, Math.floor(opts.maxFiles));
+  }
+
+  /**
+   * Build a history entry from a decision, the context it was made with and
+   * the router state at the time.
+   */
+  static toEntry(
+    decision: RouteDecision,
+    context: RouteContext,
+    health?: HealthSnapshot
+  ): HistoryEntry {
+    const { sessionKey, agentId, ...inputs } = context;
+    // Explain traces are for the caller, not the log
+    const { trace: _trace, ...fields } = decision;
+    return { ...fields, sessionKey, agentId, context: inputs, health };
+  }
+
+  /**
+   * Append an entry. Writes are serialized so rotation never races an append.
+   */
+  append(entry: HistoryEntry): Promise<void> {
+    const line = JSON.stringify(entry) + "\n";
+    const next = this.writing.then(async () => {
+      await mkdir(this.dir, { recursive: true });
+      await this.rotateIfNeeded(Buffer.byteLength(line));
+      await appendFile(this.filePath(0), line, "utf-8");
+    });
+    // Keep the chain alive even if this write fails
+    this.writing = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Query history, newest first.
+   */
+  async query(q: HistoryQuery = {}): Promise<HistoryPage> {
+    await this.writing;
+    const all = await this.readAll();
+    const bareModel = q.model?.replace(/^ollama\//, "");
+
+    const matching = all.filter((e) => {
+      if (bareModel && e.model.replace(/^ollama\//, "") !== bareModel) return false;
+      if (q.source && e.source !== q.source) return false;
+      if (q.sessionKey && e.sessionKey !== q.sessionKey) return false;
+      if (q.agentId && e.agentId !== q.agentId) return false;
+      if (q.since !== undefined && e.timestamp < q.since) return false;
+      if (q.until !== undefined && e.timestamp > q.until) return false;
+      return true;
+    });
+    matching.reverse();
+
+    const offset = Math.max(0, Math.floor(q.offset ?? 0));
+    const limit = Math.min(Math.max(1, Math.floor(q.limit ?? DEFAULT_PAGE_SIZE)), MAX_PAGE_SIZE);
+    return {
+      total: matching.length,
+      offset,
+      limit,
+      entries: matching.slice(offset, offset + limit),
+    };
+  }
+
+  /**
+   * Most recent entry, if any.
+   */
+  async latest(): Promise<HistoryEntry | undefined> {
+    const page = await this.query({ limit: 1 });
+    return page.entries[0];
+  }
+
+  /**
+   * Every entry at or after `since`, oldest first (unpaged).
+   */
+  async since(timestamp: number): Promise<HistoryEntry[]> {
+    await this.writing;
+    const all = await this.readAll();
+    return all.filter((e) => e.timestamp >= timestamp);
+  }
+
+  /**
+   * Read every log file, oldest entries first. Unparseable lines are skipped.
+   */
+  private async readAll(): Promise<HistoryEntry[]> {
+    const entries: HistoryEntry[] = [];
+    for (let i = this.maxFiles - 1; i >= 0; i--) {
+      let text: string;
+      try {
+        text = await readFile(this.filePath(i), "utf-8");
+      } catch {
+        continue;
+      }
+      for (const line of text.split("\n")) {
+        if (!line) continue;
+        try {
+          entries.push(JSON.parse(line) as HistoryEntry);
+        } catch {
+          // Partial write or corruption - skip the line
+        }
+      }
+    }
+    return entries;
+  }
+
+  private async rotateIfNeeded(incomingBytes: number): Promise<void> {
+    let size = 0;
+    try {
+      size = (await stat(this.filePath(0))).size;
+    } catch {
+      return;
+    }
+    if (size + incomingBytes <= this.maxFileBytes) return;
+
+    await rm(this.filePath(this.maxFiles - 1), { force: true });
+    for (let i = this.maxFiles - 2; i >= 0; i--) {
+      try {
+        await rename(this.filePath(i), this.filePath(i + 1));
+      } catch {
+        // Missing generation - nothing to shift
+      }
+    }
+  }
+
+  private filePath(generation: number): string {
+    return join(this.dir, generation === 0 ? LOG_FILE : `${LOG_FILE}.${generation}`);
+  }
+}
+
+/**
+ * Parse a history query from loosely typed params (gateway params or URL query).
+ * Times accept epoch milliseconds or ISO-8601 strings.
+ */
+export function parseHistoryQuery(params: Record<string, unknown>): HistoryQuery {
+  const str = (v: unknown) => (typeof v === "string" && v.length > 0 ? v : undefined);
+  const num = (v: unknown) => {
+    if (typeof v === "number") return v;
+    if (typeof v === "string" && v.length > 0 && !isNaN(Number(v))) return Number(v);
+    return undefined;
+  };
+  const time = (v: unknown) => {
+    const n = num(v);
+    if (n !== undefined) return n;
+    const s = str(v);
+    if (!s) return undefined;
+    const parsed = Date.parse(s);
+    return isNaN(parsed) ? undefined : parsed;
+  };
+  const source = str(params.source);
+
+  return {
+    model: str(params.model),
+    source:
+      source === "primary" || source === "sidecar" || source === "fallback"
+        ? source
+        : undefined,
+    sessionKey: str(params.sessionKey),
+    agentId: str(params.agentId),
+    since: time(params.since),
+    until: time(params.until),
+    offset: num(params.offset),
+    limit: num(params.limit),
+  };
+}
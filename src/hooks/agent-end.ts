@@ -1,11 +1,17 @@
 /**
  * agent_end hook:
  * After each agent completes, refresh the keep-alive on whichever model was used.
- * This prevents the model from being unloaded during active sessions.
+ * This prevents the model from being unloaded during active sessions, and marks
+ * the model as recently used so it is not picked for eviction. The run's
+ * duration and outcome feed the per-model latency statistics. When no demand
+ * is predicted for the model soon, a shorter keep-alive lets it expire.
  */
 
-import type { PluginConfig } from "../config.js";
-import type { OllamaClient } from "../ollama-client.js";
+import { findPoolEntry, type PluginConfig } from "../config.js";
+import type { OllamaCluster } from "../ollama-cluster.js";
+import type { EvictionManager } from "../eviction.js";
+import type { LatencyTracker } from "../latency-stats.js";
+import type { UsagePredictor } from "../usage-predictor.js";
 
 type AgentEndEvent = {
   messages: unknown[];
@@ -29,7 +35,10 @@ type Logger = {
 };
 
 export function createAgentEndHook(
-  client: OllamaClient,
+  cluster: OllamaCluster,
+  eviction: EvictionManager,
+  latency: LatencyTracker,
+  predictor: UsagePredictor,
   config: PluginConfig,
   logger: Logger
 ) {
@@ -39,19 +48,20 @@ export function createAgentEndHook(
       const modelUsed = _event.model;
       if (!modelUsed) return;
 
-      // Only refresh keep-alive for local ollama models
+      // Only refresh keep-alive for local ollama models in the pool
       const ollamaModel = modelUsed.replace(/^ollama\//, "");
-      if (
-        ollamaModel === config.primaryModel ||
-        ollamaModel === config.sidecarModel
-      ) {
+      eviction.touch(ollamaModel);
+      if (findPoolEntry(config, ollamaModel)) {
+        latency.record(ollamaModel, _event.durationMs, _event.success);
+
         // Fire and forget - don't block agent end
-        client
-          .warmModel(ollamaModel, config.keepAliveMinutes)
+        const keepAlive = predictor.keepAliveMinutes(ollamaModel);
+        cluster
+          .warmModel(ollamaModel, keepAlive)
           .then((ok) => {
             if (ok) {
               logger.info(
-                `[model-load-optimizer] Refreshed keep-alive: ${ollamaModel} (${config.keepAliveMinutes}m)`
+                `[model-load-optimizer] Refreshed keep-alive: ${ollamaModel} (${keepAlive}m)`
               );
             }
           })
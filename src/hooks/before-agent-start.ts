@@ -2,10 +2,13 @@
  * before_agent_start hook:
  * Selects the optimal model and injects routing context for the agent.
  * If autoRoute is enabled, overrides the model selection in the event.
+ * The agent context (agent, channel, workspace) is passed on so routing
+ * rules can match it.
  */
 
 import type { PluginConfig } from "../config.js";
 import type { ModelRouter, RouteDecision } from "../router.js";
+import { defaultComplexityScorer, type ComplexityScorer } from "../complexity.js";
 
 type BeforeAgentStartEvent = {
   prompt: string;
@@ -34,28 +37,38 @@ type Logger = {
 export function createBeforeAgentStartHook(
   router: ModelRouter,
   config: PluginConfig,
-  logger: Logger
+  logger: Logger,
+  scorer: ComplexityScorer = defaultComplexityScorer
 ) {
   return async (
     event: BeforeAgentStartEvent,
-    _ctx: AgentContext
+    ctx: AgentContext
   ): Promise<BeforeAgentStartResult | void> => {
     try {
       if (!config.autoRoute) return undefined;
 
-      // Compute request complexity heuristics
+      // Score request complexity from the prompt and conversation history
       const messageLength = event.prompt?.length ?? 0;
       const conversationDepth = Array.isArray(event.messages)
         ? event.messages.length
         : 0;
+      const complexity = scorer({
+        prompt: event.prompt ?? "",
+        messages: event.messages,
+      });
 
       const decision: RouteDecision = await router.selectModel({
         messageLength,
         conversationDepth,
+        complexity,
+        sessionKey: ctx?.sessionKey,
+        agentId: ctx?.agentId,
+        workspaceDir: ctx?.workspaceDir,
+        messageProvider: ctx?.messageProvider,
       });
 
       logger.info(
-        `[model-load-optimizer] Route: ${decision.model} (${decision.source}) - ${decision.reason}`
+        `[model-load-optimizer] Route: ${decision.model} (${decision.source}${decision.host ? ` @ ${decision.host}` : ""}) - ${decision.reason}`
       );
 
       const result: BeforeAgentStartResult = {};
@@ -2,30 +2,73 @@
  * Model Load Optimizer - OpenClaw Plugin
  *
  * Intelligent Ollama model routing:
- * - Picks primary (GPU+RAM hybrid) or sidecar (CPU-only) based on load
- * - Monitors GPU VRAM via nvidia-smi
+ * - Picks from a pool of primary (GPU+RAM hybrid) and sidecar (CPU-only) models based on load
+ * - Monitors GPU VRAM via nvidia-smi, amdgpu sysfs, rocm-smi or ioreg
+ * - Samples host RAM, swap and CPU, and keeps work off the CPU sidecar when the host is saturated
  * - Pre-warms models on startup to eliminate cold-start latency
- * - Auto-routes requests to the best available model
+ * - Warms and unloads models on cron-style schedules
+ * - Learns when each model is used and pre-warms it ahead of expected demand
+ * - Auto-routes requests to the best available model via a declarative routing policy
+ * - Spreads models across several Ollama hosts, preferring warm hosts with spare capacity
+ * - Tracks host health (healthy/degraded/down/recovering) with backoff probing
  * - Falls back to remote API when Ollama is unavailable
+ * - Per-agent, per-channel and per-workspace routing rules
+ * - Keeps each conversation on one model unless it becomes unavailable or load stays high
+ * - Learns per-model run times from agent_end and steers away from currently slow models
+ * - Evicts idle models (LRU, with pinning) to make VRAM room for the preferred model
+ * - Pulls missing models with streamed progress (optionally at startup)
+ * - Benchmarks each model (load time, TTFT, tokens/sec) on demand
+ * - /model-doctor diagnoses the setup (GPU monitoring, hosts, pulled tags, thresholds)
+ * - Settings can be read and changed at runtime (validated, persisted, applied live)
+ * - Persists every routing decision to a rotating log in the state directory
+ * - Replays recorded decisions under an alternate config to preview routing changes
  * - Dashboard at /plugins/model-load-optimizer/dashboard
+ * - Prometheus metrics at /plugins/model-load-optimizer/metrics
  */
 
-import { resolvePluginConfig } from "./config.js";
-import { OllamaClient } from "./ollama-client.js";
+import { join } from "node:path";
+import { resolvePluginConfig, type PluginConfig } from "./config.js";
+import { loadConfigSchema, validateConfig, type SchemaNode } from "./config-schema.js";
+import { RuntimeConfig } from "./config-store.js";
+import type { OllamaClientOptions } from "./ollama-client.js";
+import { OllamaCluster } from "./ollama-cluster.js";
 import { ModelRouter } from "./router.js";
-import { detectGpus, getSystemMemory } from "./gpu-detect.js";
+import { DecisionHistory } from "./history.js";
+import { PullManager } from "./pull-manager.js";
+import { EvictionManager } from "./eviction.js";
+import { SessionAffinity } from "./session-affinity.js";
+import { LatencyTracker } from "./latency-stats.js";
+import { BenchmarkRunner } from "./benchmark.js";
+import { WarmScheduler } from "./scheduler.js";
+import { UsagePredictor } from "./usage-predictor.js";
+import { describeRule } from "./routing-rules.js";
+import { parseRoutingPolicy } from "./routing-policy.js";
+import { detectGpus, getSystemMemory, runCommand } from "./gpu-detect.js";
+import { GpuMetricsCache, selectGpuMetricsProvider } from "./gpu-metrics.js";
+import { SystemMetricsSampler } from "./system-metrics.js";
 import { createBeforeAgentStartHook } from "./hooks/before-agent-start.js";
 import { createAgentEndHook } from "./hooks/agent-end.js";
 import { createModelStatusCommand } from "./commands/model-status-command.js";
+import { createModelConfigCommand } from "./commands/model-config-command.js";
+import { createModelDoctorCommand } from "./commands/model-doctor-command.js";
 import {
   createStatusMethod,
   createRouteMethod,
   createRefreshMethod,
+  createHistoryMethod,
+  createSimulateMethod,
+  createPullMethod,
+  createBenchMethod,
+  createConfigGetMethod,
+  createConfigSetMethod,
+  createDoctorMethod,
 } from "./gateway/optimizer-methods.js";
 import { createDashboardHandler } from "./web/dashboard.js";
 import {
   createStatusApiHandler,
   createRefreshApiHandler,
+  createHistoryApiHandler,
+  createMetricsHandler,
 } from "./web/api-routes.js";
 
 // Plugin types - structural typing for OpenClaw plugin API
@@ -84,27 +127,127 @@ const plugin = {
   register(api: PluginApi) {
     const config = resolvePluginConfig(api.pluginConfig);
     const logger = api.logger;
+    const stateDir = join(api.runtime.state.resolveStateDir(api.config), "model-load-optimizer");
 
-    // Detect hardware on startup
-    const gpus = detectGpus();
-    const memory = getSystemMemory();
+    // Report config values the schema rejects (the resolver ignores them)
+    let schema: SchemaNode;
+    try {
+      schema = loadConfigSchema();
+      for (const error of validateConfig(api.pluginConfig ?? {}, schema)) {
+        logger.warn(`[model-load-optimizer] Invalid config ${error.field}: ${error.message}`);
+      }
+    } catch (err) {
+      logger.warn(`[model-load-optimizer] Cannot read config schema, runtime changes are unchecked: ${err}`);
+      schema = { type: "object" };
+    }
 
-    logger.info(
-      `[model-load-optimizer] Hardware: ${gpus.length} GPU(s), ${memory.totalMB}MB RAM (${memory.freeMB}MB free)`
-    );
-    for (const gpu of gpus) {
-      logger.info(
-        `[model-load-optimizer] GPU: ${gpu.vendor} ${gpu.name} - ${gpu.vramMB}MB VRAM`
-      );
+    // An invalid routing policy is rejected as a whole
+    if (api.pluginConfig?.routingPolicy !== undefined) {
+      const { errors } = parseRoutingPolicy(api.pluginConfig.routingPolicy);
+      for (const error of errors) {
+        logger.warn(`[model-load-optimizer] Invalid ${error.field}: ${error.message}`);
+      }
+      if (errors.length > 0) {
+        logger.warn("[model-load-optimizer] Routing policy rejected, using the built-in policy");
+      }
     }
 
-    // Initialize Ollama client and router
-    const client = new OllamaClient(config.ollamaHost);
-    const router = new ModelRouter(client, config);
+    // Apply settings changed at runtime in an earlier run
+    const runtimeConfig = new RuntimeConfig(config, api.pluginConfig, schema, stateDir);
+    for (const error of runtimeConfig.load()) {
+      logger.warn(`[model-load-optimizer] Ignoring saved config ${error.field}: ${error.message}`);
+    }
 
-    logger.info(
-      `[model-load-optimizer] Primary: ${config.primaryModel}, Sidecar: ${config.sidecarModel}`
-    );
+    // GPU metrics are sampled in the background; the provider is picked at service start
+    const gpuMetrics = new GpuMetricsCache();
+    const runMetricsCommand = (cmd: string) => runCommand(cmd, config.metricsTimeoutMs);
+
+    // Initialize Ollama cluster and router
+    const cluster = new OllamaCluster(config.ollamaHosts, clientOptions(config));
+    const eviction = new EvictionManager(cluster, config);
+    const sessions = new SessionAffinity(config);
+    const latency = new LatencyTracker(config);
+    const predictor = new UsagePredictor(config);
+    const benchmarks = new BenchmarkRunner(cluster, config, stateDir);
+    const router = new ModelRouter(cluster, config, {
+      eviction,
+      sessions,
+      latency,
+      benchmarks,
+      gpuMetrics,
+      systemMetrics: new SystemMetricsSampler({ run: runMetricsCommand }),
+    });
+
+    // Apply runtime config changes that aren't read live from config
+    runtimeConfig.onChange((changed) => {
+      logger.info(`[model-load-optimizer] Config changed: ${changed.join(", ")}`);
+      cluster.configure(clientOptions(config));
+      router.applyConfig().catch((err) => {
+        logger.warn(`[model-load-optimizer] Refresh after config change failed: ${err}`);
+      });
+    });
+
+    // Log host health state changes
+    cluster.onHealthTransition((t) => {
+      const msg = `[model-load-optimizer] Ollama host ${t.host}: ${t.from} -> ${t.to} (${t.reason})`;
+      if (t.to === "healthy") logger.info(msg);
+      else logger.warn(msg);
+    });
+
+    // Track least-recently-routed models for eviction
+    router.onDecision((decision) => {
+      if (decision.source !== "fallback") eviction.touch(decision.model);
+    });
+
+    // Persist every routing decision
+    const history = new DecisionHistory(stateDir, {
+      maxFileMB: config.historyMaxFileMB,
+      maxFiles: config.historyMaxFiles,
+    });
+    router.onDecision((decision, context) => {
+      history.append(DecisionHistory.toEntry(decision, context, router.snapshot())).catch((err) => {
+        logger.warn(`[model-load-optimizer] Failed to persist decision: ${err}`);
+      });
+    });
+
+    // Learn when each model gets used for predictive pre-warming
+    router.onDecision((decision, context) => {
+      if (decision.source === "fallback") return;
+      predictor.observe({
+        model: decision.model,
+        timestamp: decision.timestamp,
+        agentId: context.agentId,
+      });
+    });
+
+    // Refresh router state whenever a model pull finishes
+    const pulls = new PullManager(cluster, async (job) => {
+      if (job.status === "done") {
+        logger.info(`[model-load-optimizer] Pulled ${job.model} on ${job.host}`);
+      } else {
+        logger.warn(
+          `[model-load-optimizer] Pull of ${job.model} on ${job.host} failed: ${job.error}`
+        );
+      }
+      await router.refreshHealth();
+    });
+
+    for (const host of config.ollamaHosts) {
+      logger.info(`[model-load-optimizer] Ollama host: ${host.name} (${host.url})`);
+    }
+    for (const model of config.models) {
+      logger.info(
+        `[model-load-optimizer] Pool: ${model.name} (${model.tier}, priority ${model.priority}, role ${model.role})`
+      );
+    }
+    if (api.pluginConfig?.routingPolicy !== undefined) {
+      logger.info(
+        `[model-load-optimizer] Routing policy: ${config.routingPolicy.map((r) => r.name).join(" > ")}`
+      );
+    }
+    for (const rule of config.routingRules) {
+      logger.info(`[model-load-optimizer] Rule ${describeRule(rule)}`);
+    }
     logger.info(
       `[model-load-optimizer] Auto-route: ${config.autoRoute}, Preload: ${config.preloadOnStart}, Keep-alive: ${config.keepAliveMinutes}m`
     );
@@ -123,7 +266,7 @@ const plugin = {
     // agent_end: refresh keep-alive
     api.on(
       "agent_end",
-      createAgentEndHook(client, config, logger) as (
+      createAgentEndHook(cluster, eviction, latency, predictor, config, logger) as (
         ...args: unknown[]
       ) => unknown
     );
@@ -134,27 +277,78 @@ const plugin = {
       id: "model-load-optimizer-service",
       start: async () => {
         logger.info("[model-load-optimizer] Starting health monitor...");
+
+        try {
+          const last = await history.latest();
+          if (last) router.restoreLastDecision(last);
+        } catch (err) {
+          logger.warn(`[model-load-optimizer] Could not read decision history: ${err}`);
+        }
+        try {
+          await benchmarks.load();
+        } catch (err) {
+          logger.warn(`[model-load-optimizer] Could not read saved benchmarks: ${err}`);
+        }
+
+        // Detect hardware (child processes, bounded by metricsTimeoutMs)
+        const [gpus, memory] = await Promise.all([
+          detectGpus(config.metricsTimeoutMs),
+          getSystemMemory(config.metricsTimeoutMs),
+        ]);
+        logger.info(
+          `[model-load-optimizer] Hardware: ${gpus.length} GPU(s), ${memory.totalMB}MB RAM (${memory.freeMB}MB free)`
+        );
+        for (const gpu of gpus) {
+          logger.info(
+            `[model-load-optimizer] GPU: ${gpu.vendor} ${gpu.name} - ${gpu.vramMB}MB VRAM`
+          );
+        }
+        const provider = await selectGpuMetricsProvider(gpus, { run: runMetricsCommand });
+        gpuMetrics.setProvider(provider);
+        if (provider) {
+          logger.info(`[model-load-optimizer] GPU metrics: ${provider.name}`);
+        } else {
+          logger.warn("[model-load-optimizer] No GPU metrics source found; GPU load is not monitored");
+        }
+
         await router.start();
 
         const state = router.getState();
         if (state.ollamaReachable) {
-          logger.info(
-            `[model-load-optimizer] Ollama online. Primary: ${state.primaryStatus.pulled ? "pulled" : "NOT PULLED"}, Sidecar: ${state.sidecarStatus.pulled ? "pulled" : "NOT PULLED"}`
-          );
+          const pool = state.models
+            .map((m) => `${m.name}: ${m.pulled ? "pulled" : "NOT PULLED"}`)
+            .join(", ");
+          logger.info(`[model-load-optimizer] Ollama online. ${pool}`);
 
-          // Log loaded models
-          const health = client.health;
-          if (health.runningModels.length > 0) {
-            const models = health.runningModels
-              .map((m) => m.name)
-              .join(", ");
-            logger.info(
-              `[model-load-optimizer] Currently loaded: ${models}`
-            );
+          // Pull configured models that no host has yet
+          if (config.autoPullMissing) {
+            for (const model of state.models.filter((m) => !m.pulled)) {
+              try {
+                const { job } = pulls.start(model.name);
+                logger.info(
+                  `[model-load-optimizer] Auto-pulling ${model.name} on ${job.host}...`
+                );
+              } catch (err) {
+                logger.warn(`[model-load-optimizer] Cannot auto-pull ${model.name}: ${err}`);
+              }
+            }
+          }
+
+          // Log loaded models and unreachable hosts
+          for (const host of state.hosts) {
+            if (!host.reachable) {
+              logger.warn(
+                `[model-load-optimizer] Ollama host ${host.name} (${host.url}) is not reachable.`
+              );
+            } else if (host.loadedModels.length > 0) {
+              logger.info(
+                `[model-load-optimizer] Currently loaded on ${host.name}: ${host.loadedModels.join(", ")}`
+              );
+            }
           }
         } else {
           logger.warn(
-            `[model-load-optimizer] Ollama at ${config.ollamaHost} is not reachable. Will retry in ${config.healthCheckIntervalSec}s.`
+            `[model-load-optimizer] No Ollama host is reachable. Will retry in ${config.healthCheckIntervalSec}s.`
           );
         }
       },
@@ -164,19 +358,73 @@ const plugin = {
       },
     });
 
-    // ── Chat Command ────────────────────────────────────────────────
+    // ── Warm-up Scheduler ───────────────────────────────────────────
+
+    const scheduler = new WarmScheduler(cluster, config, predictor);
+    for (const invalid of scheduler.errors) {
+      logger.warn(`[model-load-optimizer] Ignoring schedule ${invalid.schedule}: ${invalid.error}`);
+    }
+    scheduler.onAction((record) => {
+      const msg = `[model-load-optimizer] Schedule ${record.schedule}: ${record.action} ${record.model} on ${record.host}`;
+      if (record.success) logger.info(msg);
+      else logger.warn(`${msg} failed`);
+    });
+
+    api.registerService({
+      id: "model-load-optimizer-scheduler",
+      start: async () => {
+        if (predictor.enabled) {
+          try {
+            const since = Date.now() - config.prewarmHistoryDays * 24 * 60 * 60 * 1000;
+            for (const entry of await history.since(since)) {
+              if (entry.source === "fallback") continue;
+              predictor.observe(entry);
+            }
+          } catch (err) {
+            logger.warn(`[model-load-optimizer] Could not learn usage from decision history: ${err}`);
+          }
+        }
+        scheduler.start();
+        for (const next of scheduler.upcoming(3)) {
+          logger.info(
+            `[model-load-optimizer] Next ${next.action} (${next.schedule}): ${next.models.join(", ")} at ${new Date(next.at).toLocaleString()}`
+          );
+        }
+      },
+      stop: () => {
+        scheduler.stop();
+      },
+    });
+
+    // ── Chat Commands ───────────────────────────────────────────────
 
     api.registerCommand(
-      createModelStatusCommand(router, client, config) as unknown
+      createModelStatusCommand(
+        router,
+        config,
+        pulls,
+        eviction,
+        sessions,
+        benchmarks,
+        scheduler
+      ) as unknown
     );
+    api.registerCommand(createModelConfigCommand(runtimeConfig) as unknown);
+    api.registerCommand(createModelDoctorCommand(router, config) as unknown);
 
     // ── Gateway RPC Methods ─────────────────────────────────────────
 
     api.registerGatewayMethod(
       "model-load-optimizer.status",
-      createStatusMethod(router, client, config) as (
-        opts: unknown
-      ) => void
+      createStatusMethod(
+        router,
+        config,
+        pulls,
+        eviction,
+        sessions,
+        benchmarks,
+        scheduler
+      ) as (opts: unknown) => void
     );
     api.registerGatewayMethod(
       "model-load-optimizer.route",
@@ -186,6 +434,34 @@ const plugin = {
       "model-load-optimizer.refresh",
       createRefreshMethod(router) as (opts: unknown) => void
     );
+    api.registerGatewayMethod(
+      "model-load-optimizer.pull",
+      createPullMethod(pulls) as (opts: unknown) => void
+    );
+    api.registerGatewayMethod(
+      "model-load-optimizer.bench",
+      createBenchMethod(benchmarks) as (opts: unknown) => void
+    );
+    api.registerGatewayMethod(
+      "model-load-optimizer.doctor",
+      createDoctorMethod(router, config) as (opts: unknown) => void
+    );
+    api.registerGatewayMethod(
+      "model-load-optimizer.config.get",
+      createConfigGetMethod(runtimeConfig) as (opts: unknown) => void
+    );
+    api.registerGatewayMethod(
+      "model-load-optimizer.config.set",
+      createConfigSetMethod(runtimeConfig) as (opts: unknown) => void
+    );
+    api.registerGatewayMethod(
+      "model-load-optimizer.history",
+      createHistoryMethod(history) as (opts: unknown) => void
+    );
+    api.registerGatewayMethod(
+      "model-load-optimizer.simulate",
+      createSimulateMethod(runtimeConfig, config, history) as (opts: unknown) => void
+    );
 
     // ── Web Dashboard ───────────────────────────────────────────────
 
@@ -201,8 +477,12 @@ const plugin = {
         path: "/plugins/model-load-optimizer/api/status",
         handler: createStatusApiHandler(
           router,
-          client,
-          config
+          config,
+          pulls,
+          eviction,
+          sessions,
+          benchmarks,
+          scheduler
         ) as (req: unknown, res: unknown) => Promise<void>,
       });
       api.registerHttpRoute({
@@ -212,12 +492,51 @@ const plugin = {
           res: unknown
         ) => Promise<void>,
       });
+      api.registerHttpRoute({
+        path: "/plugins/model-load-optimizer/api/history",
+        handler: createHistoryApiHandler(history) as (
+          req: unknown,
+          res: unknown
+        ) => Promise<void>,
+      });
 
       logger.info(
         "[model-load-optimizer] Dashboard at /plugins/model-load-optimizer/dashboard"
       );
     }
+
+    // ── Prometheus Metrics ──────────────────────────────────────────
+
+    if (config.metricsEnabled) {
+      api.registerHttpRoute({
+        path: "/plugins/model-load-optimizer/metrics",
+        handler: createMetricsHandler(router, cluster, config) as (
+          req: unknown,
+          res: unknown
+        ) => Promise<void>,
+      });
+
+      logger.info(
+        "[model-load-optimizer] Metrics at /plugins/model-load-optimizer/metrics"
+      );
+    }
   },
 };
 
+/**
+ * Ollama client options (health policy, warm-up breaker) from the config.
+ */
+function clientOptions(config: PluginConfig): OllamaClientOptions {
+  return {
+    healthPolicy: {
+      failureThreshold: config.healthFailureThreshold,
+      recoveryThreshold: config.healthRecoveryThreshold,
+      baseBackoffMs: config.healthCheckIntervalSec * 1000,
+      maxBackoffMs: config.healthMaxBackoffSec * 1000,
+    },
+    warmBreakerThreshold: config.warmBreakerThreshold,
+    warmBreakerCooldownMs: config.warmBreakerCooldownSec * 1000,
+  };
+}
+
 export default plugin;
@@ -0,0 +1,177 @@
+/**
+ * Per-model latency and success statistics from agent_end events.
+ *
+ * Each model keeps an EWMA of run duration (recent behavior), p50/p95 over a
+ * window of recent successful runs (its usual behavior), and an EWMA of the
+ * success rate. A model whose EWMA has drifted well above its own p50 is
+ * "currently slow", typically because it was partially offloaded or the CPU
+ * is contended.
+ *
+ * A slow model stops being routed to, so it stops producing samples. Its
+ * EWMA and success rate therefore decay back toward its p50 and 100% with a
+ * half-life of latencyRecoveryMin, and after a quiet spell it is tried again.
+ */
+
+import type { PluginConfig } from "./config.js";
+
+export type LatencyStats = {
+  model: string;
+  runs: number;
+  successes: number;
+  failures: number;
+  /** EWMA of successful run duration */
+  ewmaMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  /** EWMA of success (1) / failure (0), 0.0-1.0 */
+  successRate: number;
+  lastDurationMs?: number;
+  updatedAt: number;
+};
+
+type ModelSamples = {
+  runs: number;
+  successes: number;
+  failures: number;
+  ewmaMs?: number;
+  successEwma: number;
+  durations: number[];
+  lastDurationMs?: number;
+  updatedAt: number;
+};
+
+/** Successful run durations kept per model for percentiles */
+const WINDOW_SIZE = 100;
+
+export class LatencyTracker {
+  private config: PluginConfig;
+  private models = new Map<string, ModelSamples>();
+
+  constructor(config: PluginConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Record one finished run. Durations of failed runs only count toward the
+   * success rate.
+   */
+  record(modelName: string, durationMs: number | undefined, success: boolean, at: number = Date.now()): void {
+    const name = modelName.replace(/^ollama\//, "");
+    const alpha = this.config.latencyEwmaAlpha;
+    const samples = this.models.get(name) ?? {
+      runs: 0,
+      successes: 0,
+      failures: 0,
+      successEwma: 1,
+      durations: [],
+      updatedAt: at,
+    };
+
+    this.decay(samples, at);
+    samples.runs++;
+    samples.updatedAt = at;
+    samples.successEwma = alpha * (success ? 1 : 0) + (1 - alpha) * samples.successEwma;
+    if (success) samples.successes++;
+    else samples.failures++;
+
+    if (success && durationMs !== undefined && durationMs >= 0) {
+      samples.lastDurationMs = durationMs;
+      samples.ewmaMs =
+        samples.ewmaMs === undefined ? durationMs : alpha * durationMs + (1 - alpha) * samples.ewmaMs;
+      samples.durations.push(durationMs);
+      if (samples.durations.length > WINDOW_SIZE) samples.durations.shift();
+    }
+
+    this.models.set(name, samples);
+  }
+
+  /**
+   * Stats as of `now`, with the recent figures decayed for the time since
+   * the last run.
+   */
+  get(modelName: string, now: number = Date.now()): LatencyStats | undefined {
+    const name = modelName.replace(/^ollama\//, "");
+    const samples = this.models.get(name);
+    return samples ? this.toStats(name, samples, now) : undefined;
+  }
+
+  /**
+   * Stats for every model seen, most recently updated first.
+   */
+  list(now: number = Date.now()): LatencyStats[] {
+    return [...this.models.entries()]
+      .map(([name, samples]) => this.toStats(name, samples, now))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Why a model should lose to faster options right now, or undefined when it
+   * is performing normally (or there is too little data to tell).
+   */
+  slowReason(modelName: string, now: number = Date.now()): string | undefined {
+    const stats = this.get(modelName, now);
+    if (!stats || stats.runs < this.config.latencyMinSamples) return undefined;
+    if (stats.successRate < this.config.latencyMinSuccessRate) {
+      return `success rate ${(stats.successRate * 100).toFixed(0)}%`;
+    }
+    if (stats.successes < this.config.latencyMinSamples || stats.p50Ms <= 0) return undefined;
+    if (stats.ewmaMs >= stats.p50Ms * this.config.latencySlowdownRatio) {
+      return `recent ${formatSeconds(stats.ewmaMs)} vs usual ${formatSeconds(stats.p50Ms)}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Pull the EWMA toward p50 and the success rate toward 1 for the time
+   * since the last run, before a new run is folded in.
+   */
+  private decay(samples: ModelSamples, at: number): void {
+    const weight = this.decayWeight(at - samples.updatedAt);
+    if (samples.ewmaMs !== undefined) {
+      const p50 = percentile([...samples.durations].sort((a, b) => a - b), 0.5);
+      samples.ewmaMs = p50 + (samples.ewmaMs - p50) * weight;
+    }
+    samples.successEwma = 1 - (1 - samples.successEwma) * weight;
+  }
+
+  /**
+   * Share of a deviation left after `elapsedMs` without runs.
+   */
+  private decayWeight(elapsedMs: number): number {
+    const halfLifeMs = this.config.latencyRecoveryMin * 60_000;
+    if (elapsedMs <= 0 || halfLifeMs <= 0) return 1;
+    return Math.pow(0.5, elapsedMs / halfLifeMs);
+  }
+
+  private toStats(model: string, samples: ModelSamples, now: number): LatencyStats {
+    const sorted = [...samples.durations].sort((a, b) => a - b);
+    const p50Ms = percentile(sorted, 0.5);
+    const weight = this.decayWeight(now - samples.updatedAt);
+    const ewmaMs = samples.ewmaMs === undefined ? 0 : p50Ms + (samples.ewmaMs - p50Ms) * weight;
+    return {
+      model,
+      runs: samples.runs,
+      successes: samples.successes,
+      failures: samples.failures,
+      ewmaMs: Math.round(ewmaMs),
+      p50Ms,
+      p95Ms: percentile(sorted, 0.95),
+      successRate: 1 - (1 - samples.successEwma) * weight,
+      lastDurationMs: samples.lastDurationMs,
+      updatedAt: samples.updatedAt,
+    };
+  }
+}
+
+/**
+ * Nearest-rank percentile of an ascending list.
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil(p * sorted.length) - 1;
+  return sorted[Math.max(0, Math.min(sorted.length - 1, rank))];
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
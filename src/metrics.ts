@@ -0,0 +1,279 @@
+/**
+ * Prometheus text exposition (format 0.0.4) for router and Ollama metrics.
+ */
+
+import { findPoolEntry, type PluginConfig } from "./config.js";
+import type { HealthState } from "./health-state.js";
+import type { OllamaCluster } from "./ollama-cluster.js";
+import type { RouterState } from "./router.js";
+import { describeSystemPressure } from "./system-metrics.js";
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+const PREFIX = "model_load_optimizer";
+
+const HEALTH_STATES: HealthState[] = ["healthy", "degraded", "recovering", "down"];
+
+type Labels = Record<string, string>;
+
+type Family = {
+  name: string;
+  help: string;
+  type: "counter" | "gauge";
+  samples: { labels?: Labels; value: number }[];
+};
+
+export function renderMetrics(
+  state: RouterState,
+  cluster: OllamaCluster,
+  config: PluginConfig
+): string {
+  const families: Family[] = [];
+  const add = (
+    name: string,
+    type: Family["type"],
+    help: string,
+    samples: Family["samples"]
+  ) => families.push({ name: `${PREFIX}_${name}`, help, type, samples });
+
+  // ── Routing ───────────────────────────────────────────────────
+
+  add(
+    "decisions_total",
+    "counter",
+    "Routing decisions by source and model",
+    Object.entries(state.selectionsByModel).map(([model, count]) => {
+      const entry = findPoolEntry(config, model);
+      return {
+        labels: { source: entry ? entry.tier : "fallback", model },
+        value: count,
+      };
+    })
+  );
+
+  // ── Ollama hosts ──────────────────────────────────────────────
+
+  add("ollama_reachable", "gauge", "1 if at least one Ollama host is reachable", [
+    { value: state.ollamaReachable ? 1 : 0 },
+  ]);
+  add(
+    "ollama_host_reachable",
+    "gauge",
+    "1 if the Ollama host answered its last health check",
+    state.hosts.map((h) => ({ labels: { host: h.name }, value: h.reachable ? 1 : 0 }))
+  );
+  add(
+    "ollama_host_health_state",
+    "gauge",
+    "1 for the current health state of each Ollama host",
+    state.hosts.flatMap((h) =>
+      HEALTH_STATES.map((s) => ({
+        labels: { host: h.name, state: s },
+        value: h.health.state === s ? 1 : 0,
+      }))
+    )
+  );
+  add(
+    "health_check_latency_seconds",
+    "gauge",
+    "Duration of the last health check per Ollama host",
+    state.hosts
+      .filter((h) => h.latencyMs !== undefined)
+      .map((h) => ({ labels: { host: h.name }, value: (h.latencyMs ?? 0) / 1000 }))
+  );
+  add(
+    "last_health_check_timestamp_seconds",
+    "gauge",
+    "Unix time of the last router health refresh",
+    [{ value: state.lastHealthCheck / 1000 }]
+  );
+  add(
+    "warmup_success_total",
+    "counter",
+    "Successful model warm-up requests per Ollama host",
+    state.hosts.map((h) => ({ labels: { host: h.name }, value: h.warmStats.successes }))
+  );
+  add(
+    "warmup_failure_total",
+    "counter",
+    "Failed model warm-up requests per Ollama host",
+    state.hosts.map((h) => ({ labels: { host: h.name }, value: h.warmStats.failures }))
+  );
+  add(
+    "warmup_rejected_total",
+    "counter",
+    "Warm-up requests skipped because the host was down or its circuit breaker was open",
+    state.hosts.map((h) => ({ labels: { host: h.name }, value: h.warmStats.rejected }))
+  );
+
+  // ── GPU ───────────────────────────────────────────────────────
+
+  if (state.vramUsage) {
+    add("gpu_vram_used_bytes", "gauge", "GPU VRAM in use", [
+      { value: state.vramUsage.usedMB * 1024 * 1024 },
+    ]);
+    add("gpu_vram_total_bytes", "gauge", "GPU VRAM capacity", [
+      { value: state.vramUsage.totalMB * 1024 * 1024 },
+    ]);
+  }
+  if (state.gpuUtilization !== null) {
+    add("gpu_utilization_ratio", "gauge", "GPU compute utilization (0-1)", [
+      { value: state.gpuUtilization / 100 },
+    ]);
+  }
+  const gpuLabels = (g: RouterState["gpus"][number]): Labels => ({
+    gpu: String(g.index),
+    ...(g.uuid ? { uuid: g.uuid } : {}),
+  });
+  add(
+    "gpu_device_vram_used_bytes",
+    "gauge",
+    "VRAM in use per GPU",
+    state.gpus
+      .filter((g) => g.vramUsedMB !== null)
+      .map((g) => ({ labels: gpuLabels(g), value: g.vramUsedMB! * 1024 * 1024 }))
+  );
+  add(
+    "gpu_device_vram_total_bytes",
+    "gauge",
+    "VRAM capacity per GPU",
+    state.gpus
+      .filter((g) => g.vramTotalMB !== null)
+      .map((g) => ({ labels: gpuLabels(g), value: g.vramTotalMB! * 1024 * 1024 }))
+  );
+  add(
+    "gpu_device_utilization_ratio",
+    "gauge",
+    "Compute utilization per GPU (0-1)",
+    state.gpus
+      .filter((g) => g.utilization !== null)
+      .map((g) => ({ labels: gpuLabels(g), value: g.utilization! / 100 }))
+  );
+
+  // ── System ────────────────────────────────────────────────────
+
+  const system = state.system;
+  if (system) {
+    const mb = 1024 * 1024;
+    add("system_memory_total_bytes", "gauge", "System RAM capacity", [
+      { value: system.memTotalMB * mb },
+    ]);
+    if (system.memAvailableMB !== null) {
+      add("system_memory_available_bytes", "gauge", "System RAM available without swapping", [
+        { value: system.memAvailableMB * mb },
+      ]);
+    }
+    if (system.swapTotalMB !== null && system.swapUsedMB !== null) {
+      add("system_swap_total_bytes", "gauge", "Swap capacity", [{ value: system.swapTotalMB * mb }]);
+      add("system_swap_used_bytes", "gauge", "Swap in use", [{ value: system.swapUsedMB * mb }]);
+    }
+    add("system_load_average", "gauge", "System load average", [
+      { labels: { window: "1m" }, value: system.loadAvg[0] },
+      { labels: { window: "5m" }, value: system.loadAvg[1] },
+      { labels: { window: "15m" }, value: system.loadAvg[2] },
+    ]);
+    if (system.cpuUtilization !== null) {
+      add("system_cpu_utilization_ratio", "gauge", "CPU utilization across all cores (0-1)", [
+        { value: system.cpuUtilization / 100 },
+      ]);
+    }
+    add(
+      "system_cpu_core_utilization_ratio",
+      "gauge",
+      "CPU utilization per core (0-1)",
+      system.perCore.map((u, i) => ({ labels: { core: String(i) }, value: u / 100 }))
+    );
+  }
+  add(
+    "system_pressure",
+    "gauge",
+    "1 if host RAM, swap or CPU is past its threshold (CPU sidecar avoided)",
+    [{ value: describeSystemPressure(state.systemLoad, config) ? 1 : 0 }]
+  );
+
+  // ── Models (per host) ─────────────────────────────────────────
+
+  const pulled: Family["samples"] = [];
+  const loaded: Family["samples"] = [];
+  const sizeVram: Family["samples"] = [];
+  for (const model of state.models) {
+    for (const host of state.hosts) {
+      const status = cluster.getClient(host.name)?.getModelStatus(model.name);
+      if (!status) continue;
+      const labels = { model: model.name, tier: model.tier, role: model.role, host: host.name };
+      pulled.push({ labels, value: status.pulled ? 1 : 0 });
+      loaded.push({ labels, value: status.loaded ? 1 : 0 });
+      sizeVram.push({ labels, value: status.vramBytes });
+    }
+  }
+  add(
+    "model_predicted_vram_bytes",
+    "gauge",
+    "Predicted size_vram if the model were loaded on its routed host",
+    state.models
+      .filter((m) => m.fit)
+      .map((m) => ({
+        labels: { model: m.name, placement: m.fit!.placement },
+        value: m.fit!.predictedVramBytes,
+      }))
+  );
+  add("model_pulled", "gauge", "1 if the model is pulled on the host", pulled);
+  add("model_loaded", "gauge", "1 if the model is loaded in memory on the host", loaded);
+  add("model_size_vram_bytes", "gauge", "VRAM allocated to the model (size_vram from /api/ps)", sizeVram);
+
+  // ── Observed run times (agent_end) ────────────────────────────
+
+  const withLatency = state.models.filter((m) => m.latency);
+  const latencySamples = (pick: (m: (typeof withLatency)[number]) => number) =>
+    withLatency.map((m) => ({ labels: { model: m.name }, value: pick(m) }));
+  add("model_runs_total", "counter", "Agent runs observed per model", latencySamples((m) => m.latency!.runs));
+  add(
+    "model_run_duration_ewma_seconds",
+    "gauge",
+    "Moving average of successful run duration",
+    latencySamples((m) => m.latency!.ewmaMs / 1000)
+  );
+  add(
+    "model_run_duration_p50_seconds",
+    "gauge",
+    "Median successful run duration over recent runs",
+    latencySamples((m) => m.latency!.p50Ms / 1000)
+  );
+  add(
+    "model_run_duration_p95_seconds",
+    "gauge",
+    "95th percentile successful run duration over recent runs",
+    latencySamples((m) => m.latency!.p95Ms / 1000)
+  );
+  add(
+    "model_success_ratio",
+    "gauge",
+    "Moving average of run success (0-1)",
+    latencySamples((m) => m.latency!.successRate)
+  );
+
+  return families.map(formatFamily).join("");
+}
+
+function formatFamily(family: Family): string {
+  let out = `# HELP ${family.name} ${family.help}\n# TYPE ${family.name} ${family.type}\n`;
+  for (const sample of family.samples) {
+    out += `${family.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}\n`;
+  }
+  return out;
+}
+
+function formatLabels(labels?: Labels): string {
+  if (!labels) return "";
+  const parts = Object.entries(labels).map(
+    ([key, value]) =>
+      `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  return parts.length > 0 ? `{${parts.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (!Number.isFinite(value)) return value > 0 ? "+Inf" : "-Inf";
+  return String(value);
+}
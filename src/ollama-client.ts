@@ -1,8 +1,24 @@
 /**
  * Ollama HTTP API client.
- * Handles model listing, status checks, GPU metrics, keep-alive, and preloading.
+ * Handles model listing, status checks, GPU metrics, keep-alive, preloading,
+ * streamed model pulls, and timed generations for benchmarks.
+ * Tracks health-check latency and warm-up outcomes for metrics, and caches
+ * per-model /api/show details (context length, parameters, num_ctx).
+ * Reachability goes through a health state machine, and warm-up requests
+ * through a circuit breaker (see health-state.ts).
  */
 
+import {
+  CircuitBreaker,
+  DEFAULT_HEALTH_POLICY,
+  HealthStateMachine,
+  type BreakerSnapshot,
+  type HealthPolicy,
+  type HealthSnapshot,
+  type HealthTransition,
+  type ProbeOutcome,
+} from "./health-state.js";
+
 export type OllamaModel = {
   name: string;
   model: string;
@@ -48,12 +64,108 @@ export type ModelStatus = {
   family?: string;
 };
 
+/**
+ * Model metadata from /api/show.
+ * - contextLength: the architecture's trained context (model_info *.context_length)
+ * - numCtx: the num_ctx parameter baked into the Modelfile, if any
+ * - blockCount / embeddingLength / headCount / headCountKv: architecture
+ *   shape used to size the KV cache
+ */
+export type ModelDetails = {
+  name: string;
+  digest?: string;
+  contextLength?: number;
+  numCtx?: number;
+  blockCount?: number;
+  embeddingLength?: number;
+  headCount?: number;
+  headCountKv?: number;
+  parameters: Record<string, string>;
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+  fetchedAt: number;
+};
+
+type OllamaShowResponse = {
+  parameters?: string;
+  model_info?: Record<string, unknown>;
+  details?: {
+    family?: string;
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+};
+
+/**
+ * Effective context window: num_ctx when the Modelfile sets one, else the
+ * model's trained context length.
+ */
+export function effectiveContextWindow(details: ModelDetails | undefined): number | undefined {
+  if (!details) return undefined;
+  return details.numCtx ?? details.contextLength;
+}
+
+/**
+ * One NDJSON line from the streaming /api/pull endpoint.
+ */
+export type PullProgressEvent = {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+  error?: string;
+};
+
+/**
+ * Timings for one streamed /api/generate call. Durations come from Ollama's
+ * final chunk (reported in nanoseconds) except ttftMs, which is measured
+ * client-side from request start to the first response token.
+ */
+export type GenerateTiming = {
+  ttftMs: number;
+  totalMs: number;
+  loadMs: number;
+  promptTokens: number;
+  promptEvalMs: number;
+  evalTokens: number;
+  evalMs: number;
+};
+
+type GenerateChunk = {
+  response?: string;
+  done?: boolean;
+  error?: string;
+  total_duration?: number;
+  load_duration?: number;
+  prompt_eval_count?: number;
+  prompt_eval_duration?: number;
+  eval_count?: number;
+  eval_duration?: number;
+};
+
 export type OllamaHealth = {
+  /** True while the host is healthy or degraded */
   reachable: boolean;
   version?: string;
   pulledModels: OllamaModel[];
   runningModels: OllamaRunningModel[];
   lastChecked: number;
+  latencyMs?: number;
+};
+
+export type WarmStats = {
+  successes: number;
+  failures: number;
+  /** Warm-ups skipped because the circuit breaker was open */
+  rejected: number;
+};
+
+export type OllamaClientOptions = {
+  healthPolicy?: HealthPolicy;
+  /** Consecutive warm-up failures before the breaker opens */
+  warmBreakerThreshold?: number;
+  warmBreakerCooldownMs?: number;
 };
 
 async function fetchJson<T>(url: string, opts?: RequestInit): Promise<T> {
@@ -68,6 +180,16 @@ async function fetchJson<T>(url: string, opts?: RequestInit): Promise<T> {
   }
 }
 
+function errorMessage(err: unknown): string {
+  if (err instanceof Error) return err.name === "AbortError" ? "timed out" : err.message;
+  return String(err);
+}
+
+/**
+ * Abort a streaming pull or generate when no data arrives for this long.
+ */
+const PULL_IDLE_TIMEOUT_MS = 120_000;
+
 export class OllamaClient {
   private host: string;
   private _health: OllamaHealth = {
@@ -76,51 +198,117 @@ export class OllamaClient {
     runningModels: [],
     lastChecked: 0,
   };
+  private _warmStats: WarmStats = { successes: 0, failures: 0, rejected: 0 };
+  private detailsCache = new Map<string, ModelDetails>();
+  private machine: HealthStateMachine;
+  private warmBreaker: CircuitBreaker;
 
-  constructor(host: string) {
+  constructor(host: string, options: OllamaClientOptions = {}) {
     this.host = host.replace(/\/$/, "");
+    this.machine = new HealthStateMachine(options.healthPolicy ?? DEFAULT_HEALTH_POLICY);
+    this.warmBreaker = new CircuitBreaker(
+      options.warmBreakerThreshold ?? 3,
+      options.warmBreakerCooldownMs ?? 60_000
+    );
   }
 
   get health(): OllamaHealth {
     return this._health;
   }
 
+  get url(): string {
+    return this.host;
+  }
+
+  get warmStats(): WarmStats {
+    return { ...this._warmStats };
+  }
+
+  get healthState(): HealthSnapshot {
+    return this.machine.snapshot();
+  }
+
+  get warmBreakerState(): BreakerSnapshot {
+    return this.warmBreaker.snapshot();
+  }
+
+  onHealthTransition(listener: (transition: HealthTransition) => void): void {
+    this.machine.onTransition(listener);
+  }
+
+  /**
+   * Apply a new health policy and warm-up breaker settings without losing
+   * the current health or breaker state.
+   */
+  configure(options: OllamaClientOptions): void {
+    if (options.healthPolicy) this.machine.setPolicy(options.healthPolicy);
+    if (options.warmBreakerThreshold !== undefined || options.warmBreakerCooldownMs !== undefined) {
+      this.warmBreaker.configure(
+        options.warmBreakerThreshold ?? 3,
+        options.warmBreakerCooldownMs ?? 60_000
+      );
+    }
+  }
+
   /**
    * Full health check: version, pulled models, running models.
+   *
+   * A failed /api/version counts as a failed probe. If only /api/tags or
+   * /api/ps fails, the probe is partial and the last known list is kept.
+   * While the host is down and backing off, no request is made and the
+   * cached health is returned.
    */
   async checkHealth(): Promise<OllamaHealth> {
+    if (!this.machine.shouldProbe()) return this._health;
+
+    const started = Date.now();
+    let outcome: ProbeOutcome = "success";
+    let error: string | undefined;
+    let version = this._health.version;
+    let pulledModels = this._health.pulledModels;
+    let runningModels = this._health.runningModels;
+
     try {
       // Check version (basic reachability)
       const versionData = await fetchJson<{ version: string }>(
         `${this.host}/api/version`
       );
+      version = versionData.version;
 
-      // List pulled models
-      const tagsData = await fetchJson<{ models: OllamaModel[] }>(
-        `${this.host}/api/tags`
-      );
-
-      // List running (loaded) models
-      const psData = await fetchJson<{ models: OllamaRunningModel[] }>(
-        `${this.host}/api/ps`
-      );
-
-      this._health = {
-        reachable: true,
-        version: versionData.version,
-        pulledModels: tagsData.models ?? [],
-        runningModels: psData.models ?? [],
-        lastChecked: Date.now(),
-      };
-    } catch {
-      this._health = {
-        reachable: false,
-        pulledModels: this._health.pulledModels,
-        runningModels: [],
-        lastChecked: Date.now(),
-      };
+      // List pulled and running (loaded) models
+      const [tags, ps] = await Promise.allSettled([
+        fetchJson<{ models: OllamaModel[] }>(`${this.host}/api/tags`),
+        fetchJson<{ models: OllamaRunningModel[] }>(`${this.host}/api/ps`),
+      ]);
+      if (tags.status === "fulfilled") {
+        pulledModels = tags.value.models ?? [];
+      } else {
+        outcome = "partial";
+        error = `/api/tags: ${errorMessage(tags.reason)}`;
+      }
+      if (ps.status === "fulfilled") {
+        runningModels = ps.value.models ?? [];
+      } else {
+        outcome = "partial";
+        error = `/api/ps: ${errorMessage(ps.reason)}`;
+      }
+    } catch (err) {
+      outcome = "failure";
+      error = errorMessage(err);
     }
 
+    this.machine.record(outcome, error);
+    const reachable = this.machine.routable;
+    this._health = {
+      reachable,
+      version,
+      pulledModels,
+      // Keep the last known loaded models while degraded; drop them once down
+      runningModels: reachable ? runningModels : [],
+      lastChecked: Date.now(),
+      latencyMs: Date.now() - started,
+    };
+
     return this._health;
   }
 
@@ -166,20 +354,251 @@ export class OllamaClient {
     };
   }
 
+  /**
+   * Cached /api/show details, if fetched for the currently pulled digest.
+   */
+  getCachedModelDetails(modelName: string): ModelDetails | undefined {
+    const cached = this.detailsCache.get(modelName);
+    if (!cached) return undefined;
+    const pulled = this._health.pulledModels.find(
+      (m) => m.name === modelName || m.model === modelName
+    );
+    if (pulled && cached.digest && pulled.digest !== cached.digest) return undefined;
+    return cached;
+  }
+
+  /**
+   * Fetch /api/show details for a model, served from cache while the
+   * pulled digest is unchanged.
+   */
+  async getModelDetails(modelName: string): Promise<ModelDetails | undefined> {
+    const cached = this.getCachedModelDetails(modelName);
+    if (cached) return cached;
+
+    try {
+      const show = await fetchJson<OllamaShowResponse>(`${this.host}/api/show`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: modelName }),
+      });
+
+      const parameters: Record<string, string> = {};
+      for (const line of (show.parameters ?? "").split("\n")) {
+        const match = line.trim().match(/^(\S+)\s+(.+)$/);
+        // Repeated keys (e.g. several `stop` values) keep the first
+        if (match && !(match[1] in parameters)) {
+          parameters[match[1]] = match[2].replace(/^"(.*)"$/, "$1");
+        }
+      }
+
+      // model_info keys are prefixed with the architecture, e.g. "llama.context_length"
+      const info = (suffix: string): number | undefined => {
+        for (const [key, value] of Object.entries(show.model_info ?? {})) {
+          if (key.endsWith(suffix) && typeof value === "number") return value;
+        }
+        return undefined;
+      };
+
+      const numCtx = parseInt(parameters.num_ctx ?? "", 10);
+      const pulled = this._health.pulledModels.find(
+        (m) => m.name === modelName || m.model === modelName
+      );
+      const details: ModelDetails = {
+        name: modelName,
+        digest: pulled?.digest,
+        contextLength: info(".context_length"),
+        numCtx: isNaN(numCtx) ? undefined : numCtx,
+        blockCount: info(".block_count"),
+        embeddingLength: info(".embedding_length"),
+        headCount: info(".attention.head_count"),
+        headCountKv: info(".attention.head_count_kv"),
+        parameters,
+        family: show.details?.family,
+        parameterSize: show.details?.parameter_size,
+        quantization: show.details?.quantization_level,
+        fetchedAt: Date.now(),
+      };
+      this.detailsCache.set(modelName, details);
+      return details;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Pull a model via the streaming /api/pull endpoint, reporting each
+   * progress line. Resolves when Ollama reports success; rejects on error
+   * or when the stream stalls.
+   */
+  async pullModel(
+    modelName: string,
+    onProgress?: (event: PullProgressEvent) => void
+  ): Promise<void> {
+    const controller = new AbortController();
+    let idle = setTimeout(() => controller.abort(), PULL_IDLE_TIMEOUT_MS);
+    const touch = () => {
+      clearTimeout(idle);
+      idle = setTimeout(() => controller.abort(), PULL_IDLE_TIMEOUT_MS);
+    };
+
+    try {
+      const res = await fetch(`${this.host}/api/pull`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: modelName, stream: true }),
+        signal: controller.signal,
+      });
+      if (!res.ok || !res.body) throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = "";
+      let succeeded = false;
+
+      const handleLine = (line: string) => {
+        if (!line.trim()) return;
+        const event = JSON.parse(line) as PullProgressEvent;
+        if (event.error) throw new Error(event.error);
+        if (event.status === "success") succeeded = true;
+        onProgress?.(event);
+      };
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        touch();
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split("\n");
+        buffered = lines.pop() ?? "";
+        for (const line of lines) handleLine(line);
+      }
+      handleLine(buffered);
+
+      if (!succeeded) throw new Error("Pull stream ended without success");
+    } finally {
+      clearTimeout(idle);
+    }
+  }
+
   /**
    * Send a minimal generate request to warm up / keep alive a model.
    * Uses keep_alive parameter to control how long it stays loaded.
+   * Returns false without a request while the host is down or the warm-up
+   * circuit breaker is open.
    */
   async warmModel(modelName: string, keepAliveMinutes: number): Promise<boolean> {
+    if (!this.machine.routable) {
+      this._warmStats.rejected++;
+      return false;
+    }
+    let attempted = false;
+    const ok = await this.warmBreaker.call(async () => {
+      attempted = true;
+      try {
+        const keepAlive = `${keepAliveMinutes}m`;
+        await fetchJson(`${this.host}/api/generate`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            model: modelName,
+            prompt: "",
+            keep_alive: keepAlive,
+            stream: false,
+          }),
+        });
+        this._warmStats.successes++;
+        return true;
+      } catch {
+        this._warmStats.failures++;
+        return false;
+      }
+    });
+    if (!attempted) this._warmStats.rejected++;
+    return ok;
+  }
+
+  /**
+   * Run a prompt through the streaming /api/generate endpoint and report
+   * its timings. Rejects on HTTP or model errors, or when the stream stalls.
+   */
+  async timedGenerate(
+    modelName: string,
+    prompt: string,
+    opts: { numPredict: number; keepAliveMinutes: number }
+  ): Promise<GenerateTiming> {
+    const controller = new AbortController();
+    let idle = setTimeout(() => controller.abort(), PULL_IDLE_TIMEOUT_MS);
+    const started = Date.now();
+    let firstTokenAt: number | undefined;
+    let final: GenerateChunk | undefined;
+
+    try {
+      const res = await fetch(`${this.host}/api/generate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: modelName,
+          prompt,
+          stream: true,
+          keep_alive: `${opts.keepAliveMinutes}m`,
+          options: { num_predict: opts.numPredict, temperature: 0 },
+        }),
+        signal: controller.signal,
+      });
+      if (!res.ok || !res.body) throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = "";
+
+      const handleLine = (line: string) => {
+        if (!line.trim()) return;
+        const chunk = JSON.parse(line) as GenerateChunk;
+        if (chunk.error) throw new Error(chunk.error);
+        if (firstTokenAt === undefined && chunk.response) firstTokenAt = Date.now();
+        if (chunk.done) final = chunk;
+      };
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        clearTimeout(idle);
+        idle = setTimeout(() => controller.abort(), PULL_IDLE_TIMEOUT_MS);
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split("\n");
+        buffered = lines.pop() ?? "";
+        for (const line of lines) handleLine(line);
+      }
+      handleLine(buffered);
+    } finally {
+      clearTimeout(idle);
+    }
+
+    if (!final) throw new Error("Generate stream ended without a final chunk");
+    const ms = (ns?: number) => (ns ?? 0) / 1e6;
+    return {
+      ttftMs: (firstTokenAt ?? Date.now()) - started,
+      totalMs: ms(final.total_duration) || Date.now() - started,
+      loadMs: ms(final.load_duration),
+      promptTokens: final.prompt_eval_count ?? 0,
+      promptEvalMs: ms(final.prompt_eval_duration),
+      evalTokens: final.eval_count ?? 0,
+      evalMs: ms(final.eval_duration),
+    };
+  }
+
+  /**
+   * Unload a model from memory immediately (keep_alive: 0).
+   */
+  async unloadModel(modelName: string): Promise<boolean> {
     try {
-      const keepAlive = `${keepAliveMinutes}m`;
       await fetchJson(`${this.host}/api/generate`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           model: modelName,
           prompt: "",
-          keep_alive: keepAlive,
+          keep_alive: 0,
           stream: false,
         }),
       });
@@ -0,0 +1,268 @@
+/**
+ * Ollama cluster: tracks several Ollama hosts, each with its own health,
+ * pulled models and loaded models, and picks the best host for a model.
+ */
+
+import type { OllamaHostConfig } from "./config.js";
+import type { BreakerSnapshot, HealthSnapshot, HealthTransition } from "./health-state.js";
+import {
+  OllamaClient,
+  type ModelDetails,
+  type ModelStatus,
+  type OllamaClientOptions,
+  type WarmStats,
+} from "./ollama-client.js";
+
+export type OllamaHostState = {
+  name: string;
+  url: string;
+  /** Runs on this machine (loopback URL), so local GPU metrics apply to it */
+  local: boolean;
+  reachable: boolean;
+  version?: string;
+  pulledModels: string[];
+  loadedModels: string[];
+  vramUsedBytes: number;
+  /** 0.0-1.0, how much room the host has for another resident model */
+  spareCapacity: number;
+  /** Configured VRAM budget, if any */
+  vramBudgetBytes?: number;
+  lastChecked: number;
+  latencyMs?: number;
+  warmStats: WarmStats;
+  /** Health state machine: healthy, degraded, down or recovering */
+  health: HealthSnapshot;
+  warmBreaker: BreakerSnapshot;
+};
+
+export type HostHealthTransition = HealthTransition & { host: string };
+
+/**
+ * Model status merged across hosts.
+ */
+export type ClusterModelStatus = ModelStatus & {
+  pulledOn: string[];
+  loadedOn: string[];
+};
+
+type ClusterMember = {
+  config: OllamaHostConfig;
+  client: OllamaClient;
+};
+
+export class OllamaCluster {
+  private members: ClusterMember[];
+
+  constructor(hosts: OllamaHostConfig[], options: OllamaClientOptions = {}) {
+    this.members = hosts.map((config) => ({
+      config,
+      client: new OllamaClient(config.url, options),
+    }));
+  }
+
+  /**
+   * Subscribe to health state changes on every host.
+   */
+  onHealthTransition(listener: (transition: HostHealthTransition) => void): void {
+    for (const m of this.members) {
+      m.client.onHealthTransition((t) => listener({ ...t, host: m.config.name }));
+    }
+  }
+
+  /**
+   * Apply new client options (health policy, warm-up breaker) to every host.
+   */
+  configure(options: OllamaClientOptions): void {
+    for (const m of this.members) m.client.configure(options);
+  }
+
+  /**
+   * True when at least one host is healthy or degraded.
+   */
+  get reachable(): boolean {
+    return this.members.some((m) => m.client.health.reachable);
+  }
+
+  /**
+   * Check every host in parallel.
+   */
+  async checkHealth(): Promise<OllamaHostState[]> {
+    await Promise.all(this.members.map((m) => m.client.checkHealth()));
+    return this.getHostStates();
+  }
+
+  getHostStates(): OllamaHostState[] {
+    return this.members.map((m) => this.hostState(m));
+  }
+
+  getClient(hostName: string): OllamaClient | undefined {
+    return this.members.find((m) => m.config.name === hostName)?.client;
+  }
+
+  /**
+   * Check if a model is loaded on any host.
+   */
+  isModelLoaded(modelName: string): boolean {
+    return this.members.some((m) => m.client.isModelLoaded(modelName));
+  }
+
+  /**
+   * Status of a model merged across hosts. Details come from the host where
+   * the model is loaded, else the first host where it is pulled.
+   */
+  getModelStatus(modelName: string): ClusterModelStatus {
+    const pulledOn: string[] = [];
+    const loadedOn: string[] = [];
+    let best: ModelStatus | undefined;
+
+    for (const m of this.members) {
+      if (!m.client.health.reachable) continue;
+      const status = m.client.getModelStatus(modelName);
+      if (status.pulled) pulledOn.push(m.config.name);
+      if (status.loaded) loadedOn.push(m.config.name);
+      if (status.loaded && !best?.loaded) best = status;
+      else if (status.pulled && !best) best = status;
+    }
+
+    const base: ModelStatus = best ?? {
+      name: modelName,
+      pulled: false,
+      loaded: false,
+      sizeBytes: 0,
+      vramBytes: 0,
+    };
+    return {
+      ...base,
+      pulled: pulledOn.length > 0,
+      loaded: loadedOn.length > 0,
+      pulledOn,
+      loadedOn,
+    };
+  }
+
+  /**
+   * Fetch /api/show details for each model from the first reachable host
+   * that has it pulled. Already-cached details are not re-fetched.
+   */
+  async loadModelDetails(modelNames: string[]): Promise<void> {
+    await Promise.all(
+      modelNames.map(async (name) => {
+        const member = this.members.find(
+          (m) => m.client.health.reachable && m.client.isModelPulled(name)
+        );
+        if (member) await member.client.getModelDetails(name);
+      })
+    );
+  }
+
+  /**
+   * Cached /api/show details for a model from any host.
+   */
+  getModelDetails(modelName: string): ModelDetails | undefined {
+    for (const m of this.members) {
+      const details = m.client.getCachedModelDetails(modelName);
+      if (details) return details;
+    }
+    return undefined;
+  }
+
+  /**
+   * Pick a host for a model: reachable hosts that have it pulled, preferring
+   * hosts where it is already warm, then hosts with the most spare capacity,
+   * then configuration order.
+   */
+  pickHost(modelName: string): OllamaHostState | undefined {
+    const candidates = this.members
+      .map((m, index) => ({ member: m, index, state: this.hostState(m) }))
+      .filter((c) => c.state.reachable && c.member.client.isModelPulled(modelName));
+
+    candidates.sort((a, b) => {
+      const aWarm = a.member.client.isModelLoaded(modelName) ? 1 : 0;
+      const bWarm = b.member.client.isModelLoaded(modelName) ? 1 : 0;
+      if (aWarm !== bWarm) return bWarm - aWarm;
+      if (a.state.spareCapacity !== b.state.spareCapacity) {
+        return b.state.spareCapacity - a.state.spareCapacity;
+      }
+      return a.index - b.index;
+    });
+
+    return candidates[0]?.state;
+  }
+
+  /**
+   * Warm a model on a specific host, or on the best host for it.
+   */
+  async warmModel(
+    modelName: string,
+    keepAliveMinutes: number,
+    hostName?: string
+  ): Promise<boolean> {
+    const name = hostName ?? this.pickHost(modelName)?.name;
+    const client = name ? this.getClient(name) : undefined;
+    if (!client) return false;
+    return client.warmModel(modelName, keepAliveMinutes);
+  }
+
+  /**
+   * Unload a model on a specific host.
+   */
+  async unloadModel(modelName: string, hostName: string): Promise<boolean> {
+    const client = this.getClient(hostName);
+    if (!client) return false;
+    return client.unloadModel(modelName);
+  }
+
+  private hostState(member: ClusterMember): OllamaHostState {
+    const health = member.client.health;
+    const { totalVram, modelCount } = member.client.getTotalVramUsage();
+    return {
+      name: member.config.name,
+      url: member.client.url,
+      local: isLocalUrl(member.client.url),
+      reachable: health.reachable,
+      version: health.version,
+      pulledModels: health.pulledModels.map((m) => m.name),
+      loadedModels: health.runningModels.map((m) => m.name),
+      vramUsedBytes: totalVram,
+      spareCapacity: health.reachable
+        ? spareCapacity(member.config, modelCount, totalVram)
+        : 0,
+      vramBudgetBytes: member.config.vramBudgetMB
+        ? member.config.vramBudgetMB * 1024 * 1024
+        : undefined,
+      lastChecked: health.lastChecked,
+      latencyMs: health.latencyMs,
+      warmStats: member.client.warmStats,
+      health: member.client.healthState,
+      warmBreaker: member.client.warmBreakerState,
+    };
+  }
+}
+
+/**
+ * Does the URL point at this machine?
+ */
+export function isLocalUrl(url: string): boolean {
+  try {
+    const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+    return host === "localhost" || host === "::1" || /^127\./.test(host);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Remaining headroom as the tighter of the loaded-model slots and the
+ * VRAM budget (when one is configured).
+ */
+function spareCapacity(
+  config: OllamaHostConfig,
+  loadedCount: number,
+  vramUsedBytes: number
+): number {
+  let used = config.maxLoadedModels > 0 ? loadedCount / config.maxLoadedModels : 0;
+  if (config.vramBudgetMB && config.vramBudgetMB > 0) {
+    used = Math.max(used, vramUsedBytes / (config.vramBudgetMB * 1024 * 1024));
+  }
+  return Math.max(0, Math.min(1, 1 - used));
+}
@@ -0,0 +1,142 @@
+/**
+ * Pull manager: pulls missing models through Ollama's streaming /api/pull,
+ * tracks byte-level progress per job, and notifies when a pull finishes so
+ * router state can be refreshed.
+ */
+
+import type { OllamaCluster } from "./ollama-cluster.js";
+
+export type PullJob = {
+  model: string;
+  host: string;
+  status: "pulling" | "done" | "failed";
+  /** Last status line from Ollama, e.g. "pulling manifest", "verifying sha256 digest" */
+  statusText: string;
+  completedBytes: number;
+  totalBytes: number;
+  percent: number;
+  startedAt: number;
+  finishedAt?: number;
+  error?: string;
+};
+
+export class PullManager {
+  private cluster: OllamaCluster;
+  private onFinished: (job: PullJob) => void | Promise<void>;
+  private jobs = new Map<string, PullJob>();
+  private pending = new Map<string, Promise<PullJob>>();
+
+  constructor(
+    cluster: OllamaCluster,
+    onFinished: (job: PullJob) => void | Promise<void>
+  ) {
+    this.cluster = cluster;
+    this.onFinished = onFinished;
+  }
+
+  /**
+   * All known jobs, most recent first.
+   */
+  list(): PullJob[] {
+    return [...this.jobs.values()]
+      .map((job) => ({ ...job }))
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  get(modelName: string, hostName: string): PullJob | undefined {
+    const job = this.jobs.get(jobKey(modelName, hostName));
+    return job ? { ...job } : undefined;
+  }
+
+  /**
+   * Start pulling a model. Without a host, the first reachable host that
+   * doesn't have the model yet is used. If the same pull is already running,
+   * the existing job is returned.
+   *
+   * Returns the job immediately; `done` resolves when the pull finishes.
+   */
+  start(
+    modelName: string,
+    hostName?: string
+  ): { job: PullJob; done: Promise<PullJob> } {
+    const hosts = this.cluster.getHostStates().filter((h) => h.reachable);
+    const host = hostName
+      ? hosts.find((h) => h.name === hostName)
+      : hosts.find((h) => !this.cluster.getClient(h.name)?.isModelPulled(modelName)) ??
+        hosts[0];
+    if (!host) {
+      throw new Error(
+        hostName ? `Ollama host ${hostName} is not reachable` : "No Ollama host is reachable"
+      );
+    }
+
+    const key = jobKey(modelName, host.name);
+    const existing = this.jobs.get(key);
+    if (existing?.status === "pulling") {
+      return { job: { ...existing }, done: this.waitFor(key) };
+    }
+
+    const job: PullJob = {
+      model: modelName,
+      host: host.name,
+      status: "pulling",
+      statusText: "starting",
+      completedBytes: 0,
+      totalBytes: 0,
+      percent: 0,
+      startedAt: Date.now(),
+    };
+    this.jobs.set(key, job);
+
+    // Ollama reports progress per layer digest; sum across layers
+    const layers = new Map<string, { total: number; completed: number }>();
+    const client = this.cluster.getClient(host.name)!;
+
+    const done = client
+      .pullModel(modelName, (event) => {
+        job.statusText = event.status;
+        if (event.digest && event.total) {
+          layers.set(event.digest, { total: event.total, completed: event.completed ?? 0 });
+          let total = 0;
+          let completed = 0;
+          for (const layer of layers.values()) {
+            total += layer.total;
+            completed += layer.completed;
+          }
+          job.totalBytes = total;
+          job.completedBytes = completed;
+          job.percent = total > 0 ? Math.round((completed / total) * 1000) / 10 : 0;
+        }
+      })
+      .then(() => {
+        job.status = "done";
+        job.percent = 100;
+        job.completedBytes = job.totalBytes;
+      })
+      .catch((err: unknown) => {
+        job.status = "failed";
+        job.error = err instanceof Error ? err.message : String(err);
+      })
+      .then(async () => {
+        job.finishedAt = Date.now();
+        this.pending.delete(key);
+        try {
+          await this.onFinished({ ...job });
+        } catch {
+          // Refresh failures must not turn a finished pull into a rejection
+        }
+        return { ...job };
+      });
+
+    this.pending.set(key, done);
+    return { job: { ...job }, done };
+  }
+
+  private waitFor(key: string): Promise<PullJob> {
+    return this.pending.get(key) ?? Promise.resolve({ ...this.jobs.get(key)! });
+  }
+}
+
+function jobKey(modelName: string, hostName: string): string {
+  return `${hostName}\u0000${modelName}`;
+}
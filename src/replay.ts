@@ -0,0 +1,270 @@
+/**
+ * Routing replay simulator.
+ * Re-runs recorded requests (context plus the health snapshot they were
+ * routed in) through ModelRouter under the current config and an alternate
+ * one, and reports how the primary/sidecar/fallback split and individual
+ * decisions would have changed. Ollama is never contacted.
+ */
+
+import type { ComplexityScore } from "./complexity.js";
+import type { PluginConfig } from "./config.js";
+import type { HistoryEntry } from "./history.js";
+import { OllamaCluster } from "./ollama-cluster.js";
+import {
+  ModelRouter,
+  type HealthSnapshot,
+  type HostSnapshot,
+  type RouteContext,
+  type RouteSource,
+} from "./router.js";
+
+export type ReplayRecord = {
+  timestamp?: number;
+  context: RouteContext;
+  /** Complexity score the recorded decision was made with */
+  complexity?: number;
+  health: HealthSnapshot;
+};
+
+export type ReplayOutcome = {
+  model: string;
+  source: RouteSource;
+  reason: string;
+};
+
+export type ReplayChange = {
+  /** Position in the replayed records */
+  index: number;
+  timestamp?: number;
+  messageLength?: number;
+  conversationDepth?: number;
+  complexity?: number;
+  baseline: ReplayOutcome;
+  candidate: ReplayOutcome;
+};
+
+export type ReplayDistribution = {
+  bySource: Record<RouteSource, number>;
+  byModel: Record<string, number>;
+};
+
+export type ReplayReport = {
+  replayed: number;
+  baseline: ReplayDistribution;
+  candidate: ReplayDistribution;
+  /** Change in each source's share of decisions, in percentage points */
+  shift: Record<RouteSource, number>;
+  changedCount: number;
+  /** Decisions that differ, oldest first, up to maxChanges */
+  changed: ReplayChange[];
+};
+
+const SOURCES: RouteSource[] = ["primary", "sidecar", "fallback"];
+
+/**
+ * Replayable records from decision history. Entries recorded before health
+ * snapshots were kept, and forced selections, are skipped.
+ */
+export function recordsFromHistory(entries: HistoryEntry[]): {
+  records: ReplayRecord[];
+  skipped: number;
+} {
+  const records: ReplayRecord[] = [];
+  for (const entry of entries) {
+    if (!entry.health || entry.context.forceModel) continue;
+    records.push({
+      timestamp: entry.timestamp,
+      context: { ...entry.context, sessionKey: entry.sessionKey, agentId: entry.agentId },
+      complexity: entry.complexity,
+      health: entry.health,
+    });
+  }
+  return { records, skipped: entries.length - records.length };
+}
+
+/**
+ * Validate records supplied by a caller. Returns an error per bad record.
+ */
+export function parseReplayRecords(raw: unknown): { records: ReplayRecord[]; errors: string[] } {
+  if (!Array.isArray(raw)) return { records: [], errors: ["records must be an array"] };
+  const records: ReplayRecord[] = [];
+  const errors: string[] = [];
+  raw.forEach((item, i) => {
+    const health = isObject(item) ? item.health : undefined;
+    if (!isObject(item) || !isObject(health)) {
+      errors.push(`records[${i}]: health snapshot is required`);
+      return;
+    }
+    if (!isStringArray(health.pulled) || !isStringArray(health.loaded)) {
+      errors.push(`records[${i}].health: pulled and loaded must be arrays of model names`);
+      return;
+    }
+    const raw = isObject(item.context) ? item.context : {};
+    const complexity = raw.complexity === undefined ? undefined : parseComplexity(raw.complexity);
+    if (complexity === null) {
+      errors.push(
+        `records[${i}].context.complexity: needs a numeric score and features.estimatedTokens`
+      );
+      return;
+    }
+    const context: RouteContext = {
+      messageLength: numberOr(raw.messageLength),
+      conversationDepth: numberOr(raw.conversationDepth),
+      forceModel: stringOr(raw.forceModel),
+      role: stringOr(raw.role),
+      complexity,
+      sessionKey: stringOr(raw.sessionKey),
+      agentId: stringOr(raw.agentId),
+      workspaceDir: stringOr(raw.workspaceDir),
+      messageProvider: stringOr(raw.messageProvider),
+    };
+    records.push({
+      timestamp: typeof item.timestamp === "number" ? item.timestamp : undefined,
+      context: {
+        ...context,
+        messageLength: numberOr(item.messageLength, context.messageLength),
+        conversationDepth: numberOr(item.conversationDepth, context.conversationDepth),
+      },
+      complexity: numberOr(item.complexity, context.complexity?.score),
+      health: {
+        ollamaReachable: health.ollamaReachable !== false,
+        gpuUtilization: numberOr(health.gpuUtilization),
+        vramUsedMB: numberOr(health.vramUsedMB),
+        vramTotalMB: numberOr(health.vramTotalMB),
+        system: isObject(health.system)
+          ? {
+              ramUsedRatio: numberOr(health.system.ramUsedRatio),
+              swapUsedRatio: numberOr(health.system.swapUsedRatio),
+              cpuUtilization: numberOr(health.system.cpuUtilization),
+            }
+          : undefined,
+        pulled: health.pulled,
+        loaded: health.loaded,
+        hosts: Array.isArray(health.hosts) ? parseHosts(health.hosts) : undefined,
+      },
+    });
+  });
+  return { records, errors };
+}
+
+/**
+ * Route every record under both configs and compare.
+ */
+export async function replayDecisions(
+  records: ReplayRecord[],
+  baselineConfig: PluginConfig,
+  candidateConfig: PluginConfig,
+  maxChanges = 50
+): Promise<ReplayReport> {
+  const baselineRouter = replayRouter(baselineConfig);
+  const candidateRouter = replayRouter(candidateConfig);
+  const baseline = emptyDistribution();
+  const candidate = emptyDistribution();
+  const changed: ReplayChange[] = [];
+  let changedCount = 0;
+
+  for (const [index, record] of records.entries()) {
+    const a = await replayOne(baselineRouter, record);
+    const b = await replayOne(candidateRouter, record);
+    tally(baseline, a);
+    tally(candidate, b);
+    if (a.model === b.model && a.source === b.source) continue;
+
+    changedCount++;
+    if (changed.length < maxChanges) {
+      changed.push({
+        index,
+        timestamp: record.timestamp,
+        messageLength: record.context.messageLength,
+        conversationDepth: record.context.conversationDepth,
+        complexity: record.complexity,
+        baseline: a,
+        candidate: b,
+      });
+    }
+  }
+
+  const share = (d: ReplayDistribution, source: RouteSource) =>
+    records.length > 0 ? (d.bySource[source] / records.length) * 100 : 0;
+  const shift = Object.fromEntries(
+    SOURCES.map((source) => [
+      source,
+      Math.round((share(candidate, source) - share(baseline, source)) * 10) / 10,
+    ])
+  ) as Record<RouteSource, number>;
+
+  return {
+    replayed: records.length,
+    baseline,
+    candidate,
+    shift,
+    changedCount,
+    changed,
+  };
+}
+
+/**
+ * A router that only ever routes from loaded snapshots. Its hosts are never
+ * health-checked, so nothing reaches Ollama. Without session affinity,
+ * latency or eviction, decisions depend only on the record and the config.
+ */
+function replayRouter(config: PluginConfig): ModelRouter {
+  return new ModelRouter(new OllamaCluster(config.ollamaHosts), config);
+}
+
+async function replayOne(router: ModelRouter, record: ReplayRecord): Promise<ReplayOutcome> {
+  router.loadSnapshot(record.health);
+  const { forceModel: _forced, ...context } = record.context;
+  const decision = await router.selectModel(context, { dryRun: true });
+  return { model: decision.model, source: decision.source, reason: decision.reason };
+}
+
+function emptyDistribution(): ReplayDistribution {
+  return { bySource: { primary: 0, sidecar: 0, fallback: 0 }, byModel: {} };
+}
+
+function tally(distribution: ReplayDistribution, outcome: ReplayOutcome): void {
+  distribution.bySource[outcome.source]++;
+  distribution.byModel[outcome.model] = (distribution.byModel[outcome.model] ?? 0) + 1;
+}
+
+function parseHosts(raw: unknown[]): HostSnapshot[] {
+  return raw.filter(isObject).map((h, i) => ({
+    name: typeof h.name === "string" ? h.name : `host-${i + 1}`,
+    local: h.local === true,
+    reachable: h.reachable !== false,
+    pulled: isStringArray(h.pulled) ? h.pulled : [],
+    loaded: isStringArray(h.loaded) ? h.loaded : [],
+  }));
+}
+
+/**
+ * A caller-supplied complexity score, or null when it can't be routed on.
+ */
+function parseComplexity(raw: unknown): ComplexityScore | null {
+  if (!isObject(raw) || !isObject(raw.features)) return null;
+  const score = numberOr(raw.score);
+  const estimatedTokens = numberOr(raw.features.estimatedTokens);
+  if (score === undefined || estimatedTokens === undefined) return null;
+  return {
+    score,
+    features: { ...(raw.features as ComplexityScore["features"]), estimatedTokens },
+    signals: isStringArray(raw.signals) ? raw.signals : [],
+  };
+}
+
+function stringOr(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function numberOr(value: unknown, fallback?: number): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
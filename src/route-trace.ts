@@ -0,0 +1,130 @@
+/**
+ * Decision traces recorded by the router in explain mode: the metrics a
+ * decision used, every pool model with the checks it passed or failed, and
+ * each routing policy rule that was evaluated.
+ */
+
+import type { ModelTier } from "./config.js";
+import type { ConditionResult, PolicyAction } from "./routing-policy.js";
+import type { SystemLoad } from "./system-metrics.js";
+
+export type TraceCheck = {
+  check: string;
+  passed: boolean;
+  detail: string;
+};
+
+export type CandidateTrace = {
+  model: string;
+  tier: ModelTier;
+  role: string;
+  checks: TraceCheck[];
+  /** Made it into its tier's candidate list for the policy */
+  candidate: boolean;
+  /** Policy rules that passed over this model, and why */
+  rejections: { rule: string; reason: string }[];
+  selected: boolean;
+};
+
+export type PolicyStepTrace = {
+  rule: string;
+  action: PolicyAction;
+  matched: boolean;
+  conditions: ConditionResult[];
+  outcome: string;
+};
+
+export type RouteTrace = {
+  /** Counters, sessions, history and eviction were left untouched */
+  dryRun: boolean;
+  metrics: {
+    ollamaReachable: boolean;
+    lastHealthCheck: number;
+    gpuUtilization?: number;
+    vramUsedMB?: number;
+    vramTotalMB?: number;
+    gpuMemoryThreshold: number;
+    system?: SystemLoad;
+    /** Which host limits are exceeded, if any */
+    hostPressure?: string;
+    complexity?: number;
+    complexityThreshold: number;
+    estimatedTokens?: number;
+    /** Estimated tokens plus contextReserveTokens */
+    neededTokens?: number;
+  };
+  /** Routing rule that matched the request context */
+  rule?: string;
+  /** Steps before the policy (rule pin, session, eviction), in order */
+  steps: string[];
+  /** Policy facts; absent when a step before the policy decided */
+  facts?: Record<string, string | number | boolean | string[] | undefined>;
+  candidates: CandidateTrace[];
+  policy: PolicyStepTrace[];
+};
+
+/**
+ * Markdown lines for a trace (used by /model-status explain).
+ */
+export function formatTrace(trace: RouteTrace): string[] {
+  const lines: string[] = [];
+  const m = trace.metrics;
+
+  lines.push("### Metrics");
+  lines.push(`- Ollama: ${m.ollamaReachable ? "reachable" : "UNREACHABLE"}`);
+  if (m.vramUsedMB !== undefined && m.vramTotalMB !== undefined) {
+    const pct = m.vramTotalMB > 0 ? ((m.vramUsedMB / m.vramTotalMB) * 100).toFixed(1) : "?";
+    lines.push(
+      `- GPU VRAM: ${m.vramUsedMB}MB / ${m.vramTotalMB}MB (${pct}%, threshold ${(m.gpuMemoryThreshold * 100).toFixed(0)}%)`
+    );
+  } else {
+    lines.push("- GPU VRAM: unknown");
+  }
+  if (m.gpuUtilization !== undefined) lines.push(`- GPU compute: ${m.gpuUtilization}%`);
+  if (m.system) {
+    const pct = (ratio?: number) => (ratio !== undefined ? `${(ratio * 100).toFixed(0)}%` : "?");
+    const cpu = m.system.cpuUtilization !== undefined ? `${m.system.cpuUtilization.toFixed(0)}%` : "?";
+    lines.push(
+      `- Host: RAM ${pct(m.system.ramUsedRatio)} used, swap ${pct(m.system.swapUsedRatio)} used, CPU ${cpu} busy${m.hostPressure ? ` - UNDER PRESSURE (${m.hostPressure})` : ""}`
+    );
+  }
+  if (m.complexity !== undefined) {
+    lines.push(
+      `- Complexity: ${m.complexity.toFixed(2)} (threshold ${m.complexityThreshold.toFixed(2)}), ~${m.estimatedTokens} tokens, ~${m.neededTokens} needed with reserve`
+    );
+  }
+  lines.push(`- Health checked ${Math.round((Date.now() - m.lastHealthCheck) / 1000)}s ago`);
+  lines.push("");
+
+  lines.push("### Steps");
+  lines.push(`- Rule: ${trace.rule ?? "none matched"}`);
+  for (const step of trace.steps) lines.push(`- ${step}`);
+  lines.push("");
+
+  if (trace.candidates.length > 0) {
+    lines.push("### Candidates");
+    for (const c of trace.candidates) {
+      const status = c.selected ? "SELECTED" : c.candidate ? "candidate" : "not a candidate";
+      lines.push(`- **${c.model}** (${c.tier}, ${c.role}) - ${status}`);
+      for (const check of c.checks) {
+        lines.push(`  - ${check.passed ? "ok" : "FAIL"} ${check.check}: ${check.detail}`);
+      }
+      for (const r of c.rejections) {
+        lines.push(`  - passed over by ${r.rule}: ${r.reason}`);
+      }
+    }
+    lines.push("");
+  }
+
+  if (trace.policy.length > 0) {
+    lines.push("### Policy");
+    for (const step of trace.policy) {
+      const failed = step.conditions.filter((c) => !c.passed);
+      const detail = step.matched
+        ? step.outcome
+        : `skipped, ${failed.map((c) => `${c.condition} is ${c.actual} (wants ${c.expected})`).join(", ")}`;
+      lines.push(`- ${step.rule} (${step.action}): ${detail}`);
+    }
+  }
+  return lines;
+}
@@ -1,80 +1,369 @@
 /**
  * Model Router - The brain of the optimizer.
  *
- * Decides which Ollama model to use for each request based on:
+ * Decides which model from the configured pool to use for each request based on:
  * 1. Model availability (pulled + loaded status)
- * 2. GPU VRAM utilization (nvidia-smi)
+ * 2. GPU VRAM utilization (nvidia-smi, amdgpu sysfs, rocm-smi or ioreg)
  * 3. System RAM availability
  * 4. Model warm/cold state (prefer already-loaded models)
- * 5. Request complexity heuristics (message length, conversation depth)
+ * 5. Request complexity score (code, tokens, reasoning keywords, attachments, tools)
+ * 6. Context window fit (models too small for the conversation are skipped)
+ * 7. Predicted VRAM placement (full GPU, partial offload, or CPU-only)
+ * 8. Observed run times and success rates (currently slow models lose to faster ones)
+ * 9. Optionally, saved benchmark results as priors (see benchmarkPriors)
+ *
+ * When the GPU is overloaded, idle models are evicted to make room for the
+ * preferred primary before the router gives up on it.
+ *
+ * A conversation (sessionKey) stays on the model it started with unless that
+ * model becomes unavailable or GPU load stays above the threshold plus a
+ * hysteresis margin for a sustained period.
+ *
+ * Once a model is chosen, the cluster picks the Ollama host to serve it.
  */
 
-import type { PluginConfig } from "./config.js";
-import { OllamaClient, type ModelStatus } from "./ollama-client.js";
-import { getNvidiaVramUsage, getNvidiaGpuUtilization } from "./gpu-detect.js";
+import type { ModelTier, PluginConfig, RoutingRule } from "./config.js";
+import type {
+  OllamaCluster,
+  ClusterModelStatus,
+  HostHealthTransition,
+  OllamaHostState,
+} from "./ollama-cluster.js";
+import { effectiveContextWindow } from "./ollama-client.js";
+import { scoreFromLengths, type ComplexityScore } from "./complexity.js";
+import type { EvictionManager } from "./eviction.js";
+import type { SessionAffinity, SessionAssignment } from "./session-affinity.js";
+import type { LatencyStats, LatencyTracker } from "./latency-stats.js";
+import type { BenchmarkRunner } from "./benchmark.js";
+import { describeFit, predictVramFit, type VramFitPrediction } from "./vram-fit.js";
+import {
+  aggregateGpuMetrics,
+  type GpuDeviceMetrics,
+  type GpuMetricsCache,
+} from "./gpu-metrics.js";
+import {
+  describeSystemPressure,
+  systemLoad,
+  type SystemLoad,
+  type SystemMetrics,
+  type SystemMetricsSampler,
+} from "./system-metrics.js";
+import { describeRule, findRoutingRule } from "./routing-rules.js";
+import {
+  evaluateConditions,
+  formatPolicyReason,
+  type CandidateSelector,
+  type PolicyFacts,
+} from "./routing-policy.js";
+import type { PolicyStepTrace, RouteTrace, TraceCheck } from "./route-trace.js";
+
+export type RouteSource = ModelTier | "fallback";
 
 export type RouteDecision = {
   model: string;
   reason: string;
-  source: "primary" | "sidecar" | "fallback";
+  source: RouteSource;
+  role?: string;
+  host?: string;
+  complexity?: number;
   gpuUtilization?: number;
   vramUsedMB?: number;
   vramTotalMB?: number;
   modelLoaded: boolean;
+  /** True when the session's existing model was kept */
+  sticky?: boolean;
+  /** Set when the session moved off the model it was on */
+  sessionSwitch?: { from: string; reason: string };
+  /** Routing rule that applied, if any */
+  rule?: string;
+  /** Full decision trace (explain mode only) */
+  trace?: RouteTrace;
+  /** When the health snapshot this decision used was taken */
+  healthCheckedAt?: number;
   timestamp: number;
 };
 
+/**
+ * Live status of one pool entry.
+ */
+export type PoolModelStatus = ClusterModelStatus & {
+  tier: ModelTier;
+  priority: number;
+  role: string;
+  /** Effective context window in tokens, from /api/show (unknown until fetched) */
+  contextWindow?: number;
+  /** Predicted placement on the chosen host's GPU (unknown without VRAM metrics) */
+  fit?: VramFitPrediction;
+  /** Observed run times and success rate (unknown until the model has run) */
+  latency?: LatencyStats;
+};
+
 export type RouterState = {
   lastDecision?: RouteDecision;
-  primaryStatus: ModelStatus;
-  sidecarStatus: ModelStatus;
+  models: PoolModelStatus[];
+  hosts: OllamaHostState[];
+  /** Recent host health state changes, newest first */
+  healthTransitions: HostHealthTransition[];
+  /** Every GPU the metrics provider reports */
+  gpus: GpuDeviceMetrics[];
+  /** When the GPUs were last sampled successfully (0 = never) */
+  gpuSampledAt: number;
+  /** GPU utilization and VRAM combined per gpuAggregation */
   gpuUtilization: number | null;
   vramUsage: { usedMB: number; totalMB: number } | null;
+  /** Host RAM, swap and CPU (null until sampled) */
+  system: SystemMetrics | null;
+  /** The RAM, swap and CPU ratios routing uses */
+  systemLoad: SystemLoad | null;
   ollamaReachable: boolean;
   lastHealthCheck: number;
   decisionsCount: number;
-  primarySelections: number;
-  sidecarSelections: number;
-  fallbackSelections: number;
+  selectionsBySource: Record<RouteSource, number>;
+  selectionsByModel: Record<string, number>;
+};
+
+/**
+ * Metrics and model state at decision time, recorded with history entries
+ * so decisions can be replayed.
+ */
+export type HealthSnapshot = {
+  ollamaReachable: boolean;
+  gpuUtilization?: number;
+  vramUsedMB?: number;
+  vramTotalMB?: number;
+  system?: SystemLoad;
+  /** Models pulled on some reachable host, in the pool or not */
+  pulled: string[];
+  /** Models loaded on some host, in the pool or not */
+  loaded: string[];
+  /** What each host reported in /api/tags and /api/ps (absent in older entries) */
+  hosts?: HostSnapshot[];
+};
+
+export type HostSnapshot = {
+  name: string;
+  local: boolean;
+  reachable: boolean;
+  pulled: string[];
+  loaded: string[];
+};
+
+export type RouteContext = {
+  messageLength?: number;
+  conversationDepth?: number;
+  forceModel?: string;
+  role?: string;
+  /** Precomputed complexity (e.g. from the before_agent_start prompt) */
+  complexity?: ComplexityScore;
+  sessionKey?: string;
+  agentId?: string;
+  workspaceDir?: string;
+  /** Channel the message came from, e.g. "discord" */
+  messageProvider?: string;
+};
+
+export type SelectOptions = {
+  /** Decide without counting, recording, updating sessions or evicting */
+  dryRun?: boolean;
+  /** Attach a RouteTrace to the decision */
+  explain?: boolean;
+};
+
+/**
+ * Optional collaborators the router consults while deciding.
+ */
+export type RouterDeps = {
+  eviction?: EvictionManager;
+  sessions?: SessionAffinity;
+  latency?: LatencyTracker;
+  benchmarks?: BenchmarkRunner;
+  /** Cached GPU metrics; without them the GPU always looks idle */
+  gpuMetrics?: GpuMetricsCache;
+  /** Host RAM and CPU sampler; without it the host never looks loaded */
+  systemMetrics?: SystemMetricsSampler;
+};
+
+export type DecisionListener = (decision: RouteDecision, context: RouteContext) => void;
+
+const MAX_HEALTH_TRANSITIONS = 20;
+
+/**
+ * The session's current assignment, and why it can't be kept (set while routing).
+ */
+type SessionCheck = {
+  assignment?: SessionAssignment;
+  switchReason?: string;
+};
+
+/**
+ * Per-call routing mode, threaded through the decision steps.
+ */
+type RouteRun = {
+  dryRun: boolean;
+  trace?: RouteTrace;
 };
 
+/**
+ * Names of the hosts running on this machine.
+ */
+function localHostNames(hosts: { name: string; local: boolean }[]): Set<string> {
+  return new Set(hosts.filter((h) => h.local).map((h) => h.name));
+}
+
+/**
+ * Append routing notes (skipped candidates etc.) to a reason.
+ */
+function withNotes(reason: string, notes: string[]): string {
+  return notes.length > 0 ? `${reason} (${notes.join("; ")})` : reason;
+}
+
 export class ModelRouter {
-  private client: OllamaClient;
+  private cluster: OllamaCluster;
   private config: PluginConfig;
   private state: RouterState;
   private healthInterval: ReturnType<typeof setInterval> | null = null;
+  private refreshing: Promise<void> | null = null;
+  private decisionListeners: DecisionListener[] = [];
+  private deps: RouterDeps;
+  /** When VRAM first rose above the threshold plus the stickiness margin */
+  private overloadedSince: number | null = null;
+  /** Hosts on this machine, whose sidecars feel the system metrics' pressure */
+  private localHosts: Set<string>;
 
-  constructor(client: OllamaClient, config: PluginConfig) {
-    this.client = client;
+  constructor(cluster: OllamaCluster, config: PluginConfig, deps: RouterDeps = {}) {
+    this.cluster = cluster;
     this.config = config;
+    this.deps = deps;
     this.state = {
-      primaryStatus: {
-        name: config.primaryModel,
-        pulled: false,
-        loaded: false,
-        sizeBytes: 0,
-        vramBytes: 0,
-      },
-      sidecarStatus: {
-        name: config.sidecarModel,
+      models: config.models.map((entry) => ({
+        name: entry.name,
         pulled: false,
         loaded: false,
         sizeBytes: 0,
         vramBytes: 0,
-      },
+        pulledOn: [],
+        loadedOn: [],
+        tier: entry.tier,
+        priority: entry.priority,
+        role: entry.role,
+      })),
+      hosts: cluster.getHostStates(),
+      healthTransitions: [],
+      gpus: [],
+      gpuSampledAt: 0,
       gpuUtilization: null,
       vramUsage: null,
+      system: null,
+      systemLoad: null,
       ollamaReachable: false,
       lastHealthCheck: 0,
       decisionsCount: 0,
-      primarySelections: 0,
-      sidecarSelections: 0,
-      fallbackSelections: 0,
+      selectionsBySource: { primary: 0, sidecar: 0, fallback: 0 },
+      selectionsByModel: {},
     };
+    this.localHosts = localHostNames(this.state.hosts);
+
+    cluster.onHealthTransition((transition) => {
+      this.state.healthTransitions.unshift(transition);
+      this.state.healthTransitions.length = Math.min(
+        this.state.healthTransitions.length,
+        MAX_HEALTH_TRANSITIONS
+      );
+    });
   }
 
   getState(): RouterState {
-    return { ...this.state };
+    return {
+      ...this.state,
+      models: this.state.models.map((m) => ({ ...m, latency: this.deps.latency?.get(m.name) })),
+      hosts: this.state.hosts.map((h) => ({ ...h })),
+      healthTransitions: this.state.healthTransitions.map((t) => ({ ...t })),
+      gpus: this.state.gpus.map((g) => ({ ...g })),
+      system: this.state.system && { ...this.state.system },
+      systemLoad: this.state.systemLoad && { ...this.state.systemLoad },
+      selectionsBySource: { ...this.state.selectionsBySource },
+      selectionsByModel: { ...this.state.selectionsByModel },
+    };
+  }
+
+  /**
+   * Subscribe to every routing decision (including forced ones).
+   */
+  onDecision(listener: DecisionListener): void {
+    this.decisionListeners.push(listener);
+  }
+
+  /**
+   * Restore the last decision after a restart (e.g. from persisted history).
+   */
+  restoreLastDecision(decision: RouteDecision): void {
+    if (!this.state.lastDecision) this.state.lastDecision = decision;
+  }
+
+  /**
+   * Current metrics and model state, for recording alongside a decision.
+   */
+  snapshot(): HealthSnapshot {
+    const hosts = this.state.hosts;
+    const pulled = new Set(this.state.models.filter((m) => m.pulled).map((m) => m.name));
+    const loaded = new Set(this.state.models.filter((m) => m.loaded).map((m) => m.name));
+    for (const host of hosts) {
+      if (host.reachable) host.pulledModels.forEach((name) => pulled.add(name));
+      host.loadedModels.forEach((name) => loaded.add(name));
+    }
+    return {
+      ollamaReachable: this.state.ollamaReachable,
+      gpuUtilization: this.state.gpuUtilization ?? undefined,
+      vramUsedMB: this.state.vramUsage?.usedMB,
+      vramTotalMB: this.state.vramUsage?.totalMB,
+      system: this.state.systemLoad ?? undefined,
+      pulled: [...pulled],
+      loaded: [...loaded],
+      hosts: hosts.map((h) => ({
+        name: h.name,
+        local: h.local,
+        reachable: h.reachable,
+        pulled: [...h.pulledModels],
+        loaded: [...h.loadedModels],
+      })),
+    };
+  }
+
+  /**
+   * Route from a recorded snapshot instead of live metrics (used by the
+   * replay simulator). The cluster is not contacted, and the snapshot counts
+   * as a fresh health check. Pool entries are looked up among every model the
+   * hosts reported, so a config that adds or swaps models sees them as pulled.
+   */
+  loadSnapshot(snapshot: HealthSnapshot): void {
+    const bare = (name: string) => name.replace(/^ollama\//, "");
+    const pulled = new Set(snapshot.pulled.map(bare));
+    const loaded = new Set(snapshot.loaded.map(bare));
+    const hosts = snapshot.hosts ?? [];
+    const on = (names: (h: HostSnapshot) => string[], name: string) =>
+      hosts.filter((h) => names(h).some((n) => bare(n) === name)).map((h) => h.name);
+    this.state.ollamaReachable = snapshot.ollamaReachable;
+    this.state.lastHealthCheck = Date.now();
+    this.state.gpuUtilization = snapshot.gpuUtilization ?? null;
+    this.state.vramUsage =
+      snapshot.vramUsedMB !== undefined && snapshot.vramTotalMB !== undefined
+        ? { usedMB: snapshot.vramUsedMB, totalMB: snapshot.vramTotalMB }
+        : null;
+    this.state.system = null;
+    this.state.systemLoad = snapshot.system ? { ...snapshot.system } : null;
+    this.localHosts = localHostNames(hosts);
+    this.state.models = this.config.models.map((entry) => ({
+      name: entry.name,
+      pulled: pulled.has(entry.name) || loaded.has(entry.name),
+      loaded: loaded.has(entry.name),
+      sizeBytes: 0,
+      vramBytes: 0,
+      pulledOn: on((h) => (h.reachable ? h.pulled : []), entry.name),
+      loadedOn: on((h) => h.loaded, entry.name),
+      tier: entry.tier,
+      priority: entry.priority,
+      role: entry.role,
+    }));
   }
 
   /**
@@ -88,13 +377,26 @@ export class ModelRouter {
       this.config.healthCheckIntervalSec * 1000
     );
 
-    // Preload primary model if configured
-    if (this.config.preloadOnStart && this.state.primaryStatus.pulled) {
-      await this.client.warmModel(
-        this.config.primaryModel,
-        this.config.keepAliveMinutes
+    // Preload the most preferred pulled primary model if configured
+    const preload = this.pulledCandidates("primary")[0];
+    if (this.config.preloadOnStart && preload) {
+      await this.cluster.warmModel(preload.name, this.config.keepAliveMinutes);
+    }
+  }
+
+  /**
+   * Re-arm the health check interval (if running) and refresh, after the
+   * config changed at runtime.
+   */
+  async applyConfig(): Promise<void> {
+    if (this.healthInterval) {
+      clearInterval(this.healthInterval);
+      this.healthInterval = setInterval(
+        () => this.refreshHealth(),
+        this.config.healthCheckIntervalSec * 1000
       );
     }
+    await this.refreshHealth();
   }
 
   /**
@@ -108,107 +410,692 @@ export class ModelRouter {
   }
 
   /**
-   * Refresh all health metrics.
+   * Refresh all health metrics. Concurrent callers share one in-flight
+   * refresh.
    */
-  async refreshHealth(): Promise<void> {
-    const health = await this.client.checkHealth();
+  refreshHealth(): Promise<void> {
+    this.refreshing ??= this.collectHealth().finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  private async collectHealth(): Promise<void> {
+    // Host probes, GPU and system sampling run side by side
+    const [hosts, , system] = await Promise.all([
+      this.cluster.checkHealth(),
+      this.deps.gpuMetrics?.refresh(),
+      this.deps.systemMetrics?.sample(),
+    ]);
+    this.state.hosts = hosts;
+    this.localHosts = localHostNames(hosts);
+    if (system) {
+      this.state.system = system;
+      this.state.systemLoad = systemLoad(system);
+    }
 
-    this.state.ollamaReachable = health.reachable;
+    this.state.ollamaReachable = this.cluster.reachable;
     this.state.lastHealthCheck = Date.now();
-    this.state.primaryStatus = this.client.getModelStatus(this.config.primaryModel);
-    this.state.sidecarStatus = this.client.getModelStatus(this.config.sidecarModel);
+    await this.cluster.loadModelDetails(this.config.models.map((entry) => entry.name));
+    this.state.models = this.config.models.map((entry) => ({
+      ...this.cluster.getModelStatus(entry.name),
+      tier: entry.tier,
+      priority: entry.priority,
+      role: entry.role,
+      contextWindow: effectiveContextWindow(this.cluster.getModelDetails(entry.name)),
+    }));
+
+    // GPU metrics, combined for the overload check
+    const gpuSnapshot = this.deps.gpuMetrics?.current();
+    this.state.gpus = gpuSnapshot?.devices ?? [];
+    this.state.gpuSampledAt = gpuSnapshot?.sampledAt ?? 0;
+    const gpu = aggregateGpuMetrics(
+      this.state.gpus,
+      this.config.gpuAggregation,
+      this.config.gpuDevice
+    );
+    this.state.gpuUtilization = gpu.utilization;
+    this.state.vramUsage = gpu.vram;
+
+    const usage = this.state.vramUsage;
+    const ratio = usage && usage.totalMB > 0 ? usage.usedMB / usage.totalMB : 0;
+    if (ratio >= this.config.gpuMemoryThreshold + this.config.stickyLoadMargin) {
+      this.overloadedSince ??= Date.now();
+    } else {
+      this.overloadedSince = null;
+    }
 
-    // GPU metrics (nvidia-smi)
-    this.state.gpuUtilization = getNvidiaGpuUtilization();
-    this.state.vramUsage = getNvidiaVramUsage();
+    this.updateFitPredictions();
+  }
+
+  /**
+   * Predict VRAM placement for every pulled pool model on the host it would
+   * be routed to. A host's configured VRAM budget takes precedence over the
+   * local GPU reading, which only describes hosts on this machine; remote
+   * hosts without a budget get no prediction.
+   */
+  private updateFitPredictions(): void {
+    const mb = 1024 * 1024;
+    for (const model of this.state.models) {
+      model.fit = undefined;
+      if (!model.pulled) continue;
+      const host = this.cluster.pickHost(model.name);
+      if (!host) continue;
+
+      let gpuTotalBytes: number;
+      let gpuUsedBytes: number;
+      if (host.vramBudgetBytes) {
+        gpuTotalBytes = host.vramBudgetBytes;
+        gpuUsedBytes = host.vramUsedBytes;
+      } else if (host.local && this.state.vramUsage) {
+        gpuTotalBytes = this.state.vramUsage.totalMB * mb;
+        gpuUsedBytes = this.state.vramUsage.usedMB * mb;
+      } else {
+        continue;
+      }
+
+      model.fit = predictVramFit({
+        sizeBytes: model.sizeBytes,
+        parameterSize: model.parameterSize,
+        quantization: model.quantization,
+        details: this.cluster.getModelDetails(model.name),
+        residentVramBytes: model.loadedOn.includes(host.name) ? model.vramBytes : 0,
+        gpuTotalBytes,
+        gpuUsedBytes,
+      });
+    }
   }
 
   /**
    * Select the optimal model for a request.
    *
-   * Decision priority:
-   * 1. If Ollama is unreachable -> remote fallback
-   * 2. If primary is pulled + GPU has capacity -> primary
-   * 3. If GPU is overloaded but sidecar is available -> sidecar (CPU-only)
-   * 4. If primary isn't pulled but sidecar is -> sidecar
-   * 5. If nothing local works -> remote fallback
-   */
-  async selectModel(context?: {
-    messageLength?: number;
-    conversationDepth?: number;
-    forceModel?: string;
-  }): Promise<RouteDecision> {
+   * Each tier is searched in priority order. When the request names a role,
+   * only pool entries with that role are considered (if any are pulled).
+   *
+   * The first routing rule matching the agent context can pin a model,
+   * restrict tiers, set the role, or forbid the remote fallback.
+   *
+   * Decision order:
+   * 1. If a rule pins a pulled model -> that model
+   * 2. If the session is on a local model that can still serve it -> keep it
+   * 3. The routing policy (see routing-policy.ts). The default policy:
+   *    a. Ollama unreachable -> remote fallback
+   *    b. Primary pulled + GPU has capacity -> primary (loaded ones first)
+   *    c. GPU overloaded, primaries slow, or simple request -> sidecar
+   *    d. Otherwise any loaded sidecar, any primary, any sidecar
+   *    e. Nothing local works -> remote fallback
+   * A remote fallback is replaced by a local model when a rule forbids it.
+   *
+   * A dry run decides the same way but leaves counters, history, sessions
+   * and loaded models untouched (evictions are only noted). With `explain`
+   * the decision carries a trace of every candidate and policy rule.
+   */
+  async selectModel(context?: RouteContext, options: SelectOptions = {}): Promise<RouteDecision> {
+    const run: RouteRun = { dryRun: options.dryRun === true };
+
     // Force override
     if (context?.forceModel) {
+      const bare = context.forceModel.replace(/^ollama\//, "");
       const decision: RouteDecision = {
         model: context.forceModel,
         reason: "Forced model selection",
         source: "primary",
-        modelLoaded: this.client.isModelLoaded(context.forceModel),
+        host: this.cluster.pickHost(bare)?.name,
+        modelLoaded: this.cluster.isModelLoaded(bare),
         timestamp: Date.now(),
       };
-      this.state.lastDecision = decision;
-      return decision;
+      if (options.explain) {
+        decision.trace = this.newTrace(run.dryRun);
+        decision.trace.steps.push(`forced to ${context.forceModel}`);
+      }
+      return run.dryRun ? decision : this.recordDecision(decision, context);
     }
 
-    // Ensure health is fresh enough
+    // Route from the cached snapshot. A stale one is refreshed in the
+    // background; only the very first decision waits for metrics.
     if (Date.now() - this.state.lastHealthCheck > this.config.healthCheckIntervalSec * 1000 * 2) {
-      await this.refreshHealth();
+      const refresh = this.refreshHealth();
+      if (this.state.lastHealthCheck === 0) {
+        await refresh;
+      } else {
+        refresh.catch(() => {});
+      }
+    }
+
+    // Notes (e.g. skipped candidates) appended to the decision reason
+    const notes: string[] = [];
+
+    // Per-agent / channel / workspace rule
+    const rule = findRoutingRule(this.config.routingRules, {
+      agentId: context?.agentId,
+      channel: context?.messageProvider,
+      workspaceDir: context?.workspaceDir,
+      sessionKey: context?.sessionKey,
+    });
+    // Route with the rule's role and the scored complexity; history keeps
+    // the caller's context so replays re-apply rules from the candidate config
+    let routed = rule?.role ? { ...context, role: rule.role } : context;
+
+    // Score request complexity and check if the sidecar can handle it
+    const complexity = this.scoreRequest(routed);
+    if (complexity) routed = { ...routed, complexity };
+    if (options.explain) run.trace = this.newTrace(run.dryRun, complexity, rule);
+
+    // The model this conversation is already on, if any
+    const sessions = this.config.sessionStickiness ? this.deps.sessions : undefined;
+    const sessionKey = context?.sessionKey;
+    const session: SessionCheck = {
+      assignment: sessions && sessionKey ? sessions.get(sessionKey) : undefined,
+    };
+
+    const decision = await this.route(routed, complexity, notes, session, rule, run);
+    decision.healthCheckedAt = this.state.lastHealthCheck;
+    if (rule) {
+      decision.rule = rule.name;
+      decision.reason += ` [rule ${describeRule(rule)}]`;
+    }
+
+    if (sessions && sessionKey) {
+      const previous = session.assignment;
+      if (previous && previous.model !== decision.model) {
+        const reason = session.switchReason ?? "previous model no longer selected";
+        decision.sessionSwitch = { from: previous.model, reason };
+        decision.reason += ` [session switched from ${previous.model}: ${reason}]`;
+      }
+      if (!run.dryRun) sessions.record(sessionKey, decision, decision.sessionSwitch?.reason);
+    }
+
+    if (run.trace) {
+      const picked = decision.model.replace(/^ollama\//, "");
+      for (const c of run.trace.candidates) {
+        c.selected = decision.source !== "fallback" && c.model === picked;
+      }
+      decision.trace = run.trace;
+    }
+    if (run.dryRun) return decision;
+    this.countDecision(decision);
+    return this.recordDecision(decision, context);
+  }
+
+  /**
+   * Session, rule and eviction steps, then the routing policy. Returns an
+   * unrecorded decision.
+   */
+  private async route(
+    context: RouteContext | undefined,
+    complexity: ComplexityScore | undefined,
+    notes: string[],
+    session: SessionCheck,
+    rule: RoutingRule | undefined,
+    run: RouteRun
+  ): Promise<RouteDecision> {
+    const trace = run.trace;
+    const isSimpleRequest = this.isSimpleRequest(complexity);
+    const tierAllowed = (tier: ModelTier) => !rule?.tiers || rule.tiers.includes(tier);
+    const reachable = this.state.ollamaReachable;
+
+    // Skip models whose context window can't hold the conversation
+    const neededTokens = complexity
+      ? complexity.features.estimatedTokens + this.config.contextReserveTokens
+      : undefined;
+    const traceCandidates = () => {
+      if (!trace) return;
+      trace.metrics.neededTokens = neededTokens;
+      trace.candidates = this.state.models.map((m) => ({
+        model: m.name,
+        tier: m.tier,
+        role: m.role,
+        checks: this.candidateChecks(m, context, neededTokens, rule),
+        candidate: false,
+        rejections: [],
+        selected: false,
+      }));
+    };
+    traceCandidates();
+
+    let gpuOverloaded = this.isGpuOverloaded();
+    if (!reachable) {
+      for (const host of this.state.hosts) notes.push(`${host.name} ${host.health.state}`);
+      session.switchReason = "Ollama is unreachable";
+      trace?.steps.push(`Ollama unreachable (${notes.join(", ")})`);
+    } else {
+      // A rule can pin one model while it is pulled
+      if (rule?.model) {
+        const pinned = this.state.models.find((m) => m.name === rule.model);
+        if (pinned?.pulled) {
+          session.switchReason = `rule ${rule.name} pins ${pinned.name}`;
+          trace?.steps.push(`rule ${rule.name} pins ${pinned.name}`);
+          return this.decideLocal(pinned, "Model pinned by routing rule", context, notes);
+        }
+        notes.push(`rule model ${rule.model} ${pinned ? "not pulled" : "not in the pool"}`);
+        trace?.steps.push(`rule model ${rule.model} ${pinned ? "not pulled" : "not in the pool"}, ignored`);
+      }
+
+      // Keep the session on its model unless there is a strong reason to move
+      const sticky = this.stickyModel(session, neededTokens, rule);
+      if (sticky) {
+        notes.push(`session turn ${session.assignment!.turns + 1} on this model`);
+        trace?.steps.push(`session kept on ${sticky.name} (turn ${session.assignment!.turns + 1})`);
+        return { ...this.decideLocal(sticky, "Session kept on its model", context, notes), sticky: true };
+      }
+      if (session.assignment) {
+        trace?.steps.push(`session leaves ${session.assignment.model}: ${session.switchReason}`);
+      }
+
+      // Try to free VRAM for the preferred primary first
+      if (gpuOverloaded && tierAllowed("primary")) {
+        const preferred = this.pulledCandidates("primary", context?.role, neededTokens)[0];
+        if (preferred) {
+          const before = notes.length;
+          if (await this.freeVramFor(preferred, notes, run.dryRun)) {
+            gpuOverloaded = this.isGpuOverloaded();
+            traceCandidates();
+          }
+          const result = notes.slice(before).join("; ") || "no idle model to evict";
+          trace?.steps.push(`GPU overloaded, freeing VRAM for ${preferred.name}: ${result}`);
+        }
+      }
     }
 
-    // If Ollama is down, go remote
-    if (!this.state.ollamaReachable) {
-      return this.decideFallback("Ollama is unreachable");
+    const primaries = tierAllowed("primary")
+      ? this.pulledCandidates("primary", context?.role, neededTokens, notes)
+      : [];
+    const sidecars = tierAllowed("sidecar")
+      ? this.pulledCandidates("sidecar", context?.role, neededTokens, notes)
+      : [];
+
+    // Currently slow primaries are avoided when a sidecar isn't slow too
+    const primariesSlow = primaries.length > 0 && primaries.every((m) => this.slowReason(m));
+    const sidecarsSlow = sidecars.length > 0 && sidecars.every((m) => this.slowReason(m));
+
+    const vram = this.state.vramUsage;
+    const facts: PolicyFacts = {
+      reachable,
+      gpuOverloaded,
+      vramRatio: vram && vram.totalMB > 0 ? vram.usedMB / vram.totalMB : undefined,
+      gpuUtilization: this.state.gpuUtilization ?? undefined,
+      hostPressure: this.sidecarPressure(sidecars[0]) !== undefined,
+      ramUsedRatio: this.state.systemLoad?.ramUsedRatio,
+      swapUsedRatio: this.state.systemLoad?.swapUsedRatio,
+      cpuUtilization: this.state.systemLoad?.cpuUtilization,
+      simple: isSimpleRequest,
+      complexity: complexity?.score,
+      estimatedTokens: complexity?.features.estimatedTokens,
+      messageLength: context?.messageLength,
+      role: context?.role,
+      primariesSlow: primariesSlow && sidecars.length > 0 && !sidecarsSlow,
+      // Simple requests go to the sidecar unless benchmarks show the primary is faster
+      preferSidecar:
+        isSimpleRequest && !this.primaryBenchmarksFaster(primaries[0], sidecars[0], notes),
+      loadedModels: new Set(this.state.models.filter((m) => m.loaded).map((m) => m.name)),
+      pulledModels: new Set(this.state.models.filter((m) => m.pulled).map((m) => m.name)),
+    };
+
+    if (trace) {
+      const listed = new Set([...primaries, ...sidecars].map((m) => m.name));
+      for (const c of trace.candidates) c.candidate = listed.has(c.model);
+      trace.facts = {
+        ...facts,
+        loadedModels: [...facts.loadedModels],
+        pulledModels: [...facts.pulledModels],
+      };
     }
 
-    const primaryPulled = this.state.primaryStatus.pulled;
-    const sidecarPulled = this.state.sidecarStatus.pulled;
-    const primaryLoaded = this.state.primaryStatus.loaded;
-    const sidecarLoaded = this.state.sidecarStatus.loaded;
+    return this.decideByPolicy(facts, { primary: primaries, sidecar: sidecars }, context, notes, rule, run);
+  }
+
+  /**
+   * Walk the routing policy top to bottom. Facts are computed once before
+   * the walk; exclusions only narrow the candidates for later rules.
+   */
+  private decideByPolicy(
+    facts: PolicyFacts,
+    candidates: Record<ModelTier, PoolModelStatus[]>,
+    context: RouteContext | undefined,
+    notes: string[],
+    rule: RoutingRule | undefined,
+    run: RouteRun
+  ): RouteDecision {
+    const trace = run.trace;
+    const reject = (step: string) => (model: PoolModelStatus, reason: string) =>
+      trace?.candidates.find((c) => c.model === model.name)?.rejections.push({ rule: step, reason });
+    const primary = candidates.primary[0];
+    const vars: Record<string, string> = {
+      threshold: `${(this.config.gpuMemoryThreshold * 100).toFixed(0)}%`,
+      primary: primary?.name ?? "-",
+      primarySlowness: (primary && this.slowReason(primary)) ?? "",
+      pressure: this.hostPressure() ?? "none",
+    };
 
-    // Check GPU load
-    const gpuOverloaded = this.isGpuOverloaded();
+    for (const step of this.config.routingPolicy) {
+      const conditions = evaluateConditions(step.when, facts);
+      const traced: PolicyStepTrace = {
+        rule: step.name,
+        action: step.action,
+        matched: conditions.every((c) => c.passed),
+        conditions,
+        outcome: "conditions not met",
+      };
+      trace?.policy.push(traced);
+      if (!traced.matched) continue;
 
-    // Check if this is a "simple" request that the sidecar can handle
-    const isSimpleRequest = this.isSimpleRequest(context);
+      if (step.action === "fallback") {
+        traced.outcome = "remote fallback";
+        const reason = formatPolicyReason(step.reason ?? `Fallback by policy rule ${step.name}`, vars);
+        return this.decideFallbackUnlessForbidden(reason, context, notes, rule);
+      }
 
-    // ── Decision Logic ──────────────────────────────────────────
+      if (step.action === "exclude") {
+        const excluded: string[] = [];
+        for (const tier of ["primary", "sidecar"] as const) {
+          const dropped = candidates[tier].filter(
+            (m) => this.selectorMismatch(step.select!, m, candidates[tier], notes) === undefined
+          );
+          if (dropped.length === 0) continue;
+          candidates[tier] = candidates[tier].filter((m) => !dropped.includes(m));
+          for (const m of dropped) reject(step.name)(m, "excluded");
+          excluded.push(...dropped.map((m) => m.name));
+          notes.push(`policy ${step.name} excluded ${dropped.map((m) => m.name).join(", ")}`);
+        }
+        traced.outcome = excluded.length > 0 ? `excluded ${excluded.join(", ")}` : "nothing to exclude";
+        continue;
+      }
 
-    // If primary is already loaded and GPU isn't overloaded -> use it
-    if (primaryPulled && primaryLoaded && !gpuOverloaded) {
-      return this.decidePrimary("Primary model loaded and GPU has capacity");
+      const picked = this.pickCandidate(step.select ?? {}, candidates, notes, reject(step.name));
+      traced.outcome = picked ? `picked ${picked.name}` : "no candidate matched";
+      if (picked) {
+        const reason = formatPolicyReason(step.reason ?? `Picked by policy rule ${step.name}`, {
+          ...vars,
+          model: picked.name,
+        });
+        return this.decideLocal(picked, reason, context, notes);
+      }
     }
 
-    // If primary is pulled but not loaded, and GPU has room -> load + use it
-    if (primaryPulled && !gpuOverloaded && !isSimpleRequest) {
-      return this.decidePrimary("Primary model available, loading for complex request");
+    return this.decideFallbackUnlessForbidden("No policy rule picked a local model", context, notes, rule);
+  }
+
+  /**
+   * First candidate matching a pick selector, searching the selector's tier
+   * (or primaries, then sidecars). Candidates passed over are reported to
+   * `reject`.
+   */
+  private pickCandidate(
+    select: CandidateSelector,
+    candidates: Record<ModelTier, PoolModelStatus[]>,
+    notes: string[],
+    reject?: (model: PoolModelStatus, reason: string) => void
+  ): PoolModelStatus | undefined {
+    const tiers: ModelTier[] = select.tier ? [select.tier] : ["primary", "sidecar"];
+    for (const tier of tiers) {
+      const list = candidates[tier];
+      if (select.preferLoaded) {
+        const warm = list.find(
+          (m) =>
+            m.loaded &&
+            this.selectorMismatch({ ...select, notSlow: true, fitsGpu: false }, m, list, notes) ===
+              undefined
+        );
+        if (warm) return warm;
+      }
+      for (const model of list) {
+        const mismatch = this.selectorMismatch(select, model, list, notes);
+        if (mismatch === undefined) return model;
+        reject?.(model, mismatch);
+      }
     }
+    return undefined;
+  }
 
-    // If GPU is overloaded or simple request, prefer sidecar if available
-    if (sidecarPulled && (gpuOverloaded || isSimpleRequest)) {
-      const reason = gpuOverloaded
-        ? `GPU VRAM above ${(this.config.gpuMemoryThreshold * 100).toFixed(0)}% - routing to CPU sidecar`
-        : "Simple request routed to fast CPU sidecar";
-      return this.decideSidecar(reason);
+  /**
+   * Why a candidate doesn't match a selector, or undefined if it does.
+   * `tierList` is the candidate's tier, used to tell whether every option
+   * there is slow. The GPU fit check runs last since it notes skipped models.
+   */
+  private selectorMismatch(
+    select: CandidateSelector,
+    model: PoolModelStatus,
+    tierList: PoolModelStatus[],
+    notes: string[]
+  ): string | undefined {
+    const name = select.model?.replace(/^ollama\//, "");
+    if (select.tier !== undefined && model.tier !== select.tier) return `not a ${select.tier} model`;
+    if (name !== undefined && model.name !== name) return `not ${name}`;
+    if (select.role !== undefined && model.role !== select.role) return `role ${model.role}, not ${select.role}`;
+    if (select.loaded !== undefined && model.loaded !== select.loaded) {
+      return model.loaded ? "loaded" : "not loaded";
     }
+    const slow = select.notSlow ? this.slowReason(model) : undefined;
+    if (slow && !tierList.every((m) => this.slowReason(m))) return `slow: ${slow}`;
+    if (select.fitsGpu && !this.fitsGpu(model, notes)) return `predicted ${describeFit(model.fit!)}`;
+    return undefined;
+  }
 
-    // If sidecar is loaded (already warm), use it as fast path
-    if (sidecarPulled && sidecarLoaded) {
-      return this.decideSidecar("Sidecar already loaded - fast response path");
+  /**
+   * Remote fallback, unless the rule forbids it: then stay on the most
+   * preferred allowed pool model (pulled ones first), even if it can't serve
+   * the request right now, so nothing leaves the machine.
+   */
+  private decideFallbackUnlessForbidden(
+    reason: string,
+    context: RouteContext | undefined,
+    notes: string[],
+    rule?: RoutingRule
+  ): RouteDecision {
+    if (rule?.allowFallback !== false) return this.decideFallback(reason, context, notes);
+    const local = this.state.models
+      .filter((m) => !rule.tiers || rule.tiers.includes(m.tier))
+      .sort(
+        (a, b) =>
+          Number(b.pulled) - Number(a.pulled) ||
+          Number(b.tier === "primary") - Number(a.tier === "primary") ||
+          a.priority - b.priority
+      )[0];
+    if (!local) return this.decideFallback(reason, context, notes);
+    notes.push("remote fallback blocked by rule");
+    return this.decideLocal(local, reason, context, notes);
+  }
+
+  /**
+   * The session's current pool model, if it can still serve the session.
+   * Otherwise records why the session has to move. Fallback assignments
+   * aren't sticky: sessions return to local models as soon as they can.
+   */
+  private stickyModel(
+    session: SessionCheck,
+    neededTokens?: number,
+    rule?: RoutingRule
+  ): PoolModelStatus | undefined {
+    const assignment = session.assignment;
+    if (!assignment) return undefined;
+    if (assignment.source === "fallback") {
+      session.switchReason = "local model available again";
+      return undefined;
     }
 
-    // If primary is available at all, use it (even if GPU is loaded, partial offload works)
-    if (primaryPulled) {
-      return this.decidePrimary("Primary model available with partial GPU offload");
+    const name = assignment.model.replace(/^ollama\//, "");
+    const model = this.state.models.find((m) => m.name === name);
+    const pressure = model?.tier === "sidecar" ? this.sidecarPressure(model) : undefined;
+    if (!model) {
+      session.switchReason = `${name} is no longer in the pool`;
+    } else if (rule?.tiers && !rule.tiers.includes(model.tier)) {
+      session.switchReason = `rule ${rule.name} excludes ${model.tier} models`;
+    } else if (!model.pulled) {
+      session.switchReason = `${name} is not available on any reachable host`;
+    } else if (
+      neededTokens !== undefined &&
+      model.contextWindow !== undefined &&
+      model.contextWindow < neededTokens
+    ) {
+      session.switchReason = `${name} context ${model.contextWindow} < ~${neededTokens} tokens needed`;
+    } else if (model.tier === "primary" && this.isOverloadSustained()) {
+      const pct = ((this.config.gpuMemoryThreshold + this.config.stickyLoadMargin) * 100).toFixed(0);
+      session.switchReason = `GPU VRAM above ${pct}% for over ${this.config.stickySustainSec}s`;
+    } else if (pressure) {
+      session.switchReason = `host under pressure: ${pressure}`;
+    } else {
+      return model;
     }
+    return undefined;
+  }
+
+  /**
+   * Has VRAM stayed above the threshold plus the stickiness margin for
+   * `stickySustainSec`?
+   */
+  private isOverloadSustained(): boolean {
+    return (
+      this.overloadedSince !== null &&
+      Date.now() - this.overloadedSince >= this.config.stickySustainSec * 1000
+    );
+  }
 
-    // Last resort: sidecar
-    if (sidecarPulled) {
-      return this.decideSidecar("Only sidecar model available");
+  /**
+   * Pulled pool entries for a tier, most preferred first.
+   * Models with a known context window smaller than `neededTokens` are
+   * dropped and noted. A role narrows the list only when at least one
+   * remaining entry has that role. Currently slow models move behind the
+   * rest of the tier.
+   */
+  private pulledCandidates(
+    tier: ModelTier,
+    role?: string,
+    neededTokens?: number,
+    notes?: string[]
+  ): PoolModelStatus[] {
+    const pulled = this.state.models
+      .filter((m) => m.tier === tier && m.pulled)
+      .filter((m) => {
+        if (neededTokens === undefined || m.contextWindow === undefined) return true;
+        if (m.contextWindow >= neededTokens) return true;
+        notes?.push(`skipped ${m.name}: ctx ${m.contextWindow} < ~${neededTokens} tokens needed`);
+        return false;
+      })
+      .sort((a, b) => a.priority - b.priority || this.benchmarkTps(b) - this.benchmarkTps(a));
+    const matching = role ? pulled.filter((m) => m.role === role) : [];
+    const candidates = matching.length > 0 ? matching : pulled;
+
+    const fast = candidates.filter((m) => !this.slowReason(m));
+    const slow = candidates.filter((m) => this.slowReason(m));
+    if (fast.length > 0) {
+      for (const m of slow) notes?.push(`demoted ${m.name}: ${this.slowReason(m)}`);
     }
+    return [...fast, ...slow];
+  }
+
+  /**
+   * Benchmarked eval tokens/sec, used to break priority ties when
+   * benchmark priors are enabled (0 when off or not benchmarked).
+   */
+  private benchmarkTps(model: PoolModelStatus): number {
+    if (!this.config.benchmarkPriors) return 0;
+    return this.deps.benchmarks?.get(model.name)?.evalTokensPerSec ?? 0;
+  }
+
+  /**
+   * With benchmark priors enabled: did the primary benchmark both faster to
+   * first token and faster at generating than the sidecar?
+   */
+  private primaryBenchmarksFaster(
+    primary: PoolModelStatus | undefined,
+    sidecar: PoolModelStatus | undefined,
+    notes: string[]
+  ): boolean {
+    if (!this.config.benchmarkPriors || !primary || !sidecar) return false;
+    const p = this.deps.benchmarks?.get(primary.name);
+    const s = this.deps.benchmarks?.get(sidecar.name);
+    if (!p || !s) return false;
+    if (p.evalTokensPerSec <= s.evalTokensPerSec || p.ttftMs > s.ttftMs) return false;
+    notes.push(
+      `benchmarks: ${primary.name} ${p.evalTokensPerSec} tok/s vs ${sidecar.name} ${s.evalTokensPerSec} tok/s`
+    );
+    return true;
+  }
 
-    // Nothing local -> fallback to remote
-    return this.decideFallback("No local models available");
+  /**
+   * Why a model is currently slower than usual (or failing), if it is.
+   */
+  private slowReason(model: PoolModelStatus): string | undefined {
+    return this.deps.latency?.slowReason(model.name);
+  }
+
+  /**
+   * Would this model get at least part of the GPU? Unknown predictions count as yes.
+   */
+  private fitsGpu(model: PoolModelStatus, notes: string[]): boolean {
+    if (!model.fit || model.loaded || model.fit.placement !== "cpu") return true;
+    notes.push(`skipped ${model.name}: predicted ${describeFit(model.fit)}`);
+    return false;
+  }
+
+  /**
+   * Unload least-recently-used idle models so the target fits under the
+   * VRAM threshold. Returns true if anything was evicted. A dry run only
+   * notes the plan.
+   */
+  private async freeVramFor(
+    target: PoolModelStatus,
+    notes: string[],
+    dryRun: boolean
+  ): Promise<boolean> {
+    const eviction = this.deps.eviction;
+    const usage = this.state.vramUsage;
+    if (!eviction || !this.config.evictionEnabled || !usage) return false;
+
+    // The GPU reading is this machine's; it says nothing about remote hosts
+    const host = this.cluster.pickHost(target.name);
+    if (!host?.local) return false;
+
+    const mb = 1024 * 1024;
+    const excessBytes = (usage.usedMB - usage.totalMB * this.config.gpuMemoryThreshold) * mb;
+    const targetBytes = target.loaded ? 0 : (target.fit?.requiredBytes ?? target.sizeBytes);
+    const plan = eviction.plan(target.name, host.name, excessBytes + targetBytes);
+    if (!plan || plan.length === 0) return false;
+    if (dryRun) {
+      notes.push(`would evict ${plan.map((c) => c.model).join(", ")} to free VRAM`);
+      return false;
+    }
+
+    const records = await eviction.evict(plan, `free VRAM for ${target.name}`);
+    const evicted = records.filter((r) => r.success);
+    if (evicted.length === 0) return false;
+
+    const freedMB = evicted.reduce((sum, r) => sum + r.vramBytes, 0) / mb;
+    await this.refreshHealth();
+    // Ollama may release VRAM after GPU metrics are sampled; trust the estimate until it catches up
+    if (this.state.vramUsage) {
+      this.state.vramUsage = {
+        ...this.state.vramUsage,
+        usedMB: Math.min(this.state.vramUsage.usedMB, Math.round(usage.usedMB - freedMB)),
+      };
+      this.updateFitPredictions();
+    }
+
+    notes.push(
+      `evicted ${evicted.map((r) => r.model).join(", ")} to free ${Math.round(freedMB)}MB VRAM`
+    );
+    return true;
+  }
+
+  /**
+   * Why the host can't take CPU sidecar work right now (swapping, RAM or CPU
+   * saturated), or undefined when it has headroom.
+   */
+  private hostPressure(): string | undefined {
+    return describeSystemPressure(this.state.systemLoad, this.config);
+  }
+
+  /**
+   * Host pressure that applies to a sidecar. The system metrics describe
+   * the gateway's machine, so only a sidecar pulled on a local host is held
+   * back by them; one served by a remote Ollama host is not. A model with
+   * no per-host record (older replay snapshots) counts as local.
+   */
+  private sidecarPressure(model: PoolModelStatus | undefined): string | undefined {
+    if (!model) return undefined;
+    const local =
+      model.pulledOn.length === 0 || model.pulledOn.some((host) => this.localHosts.has(host));
+    return local ? this.hostPressure() : undefined;
   }
 
   /**
@@ -221,66 +1108,202 @@ export class ModelRouter {
   }
 
   /**
-   * Heuristic: is this a "simple" request the sidecar can handle?
-   * Simple = short message, shallow conversation.
+   * Bump the selection counters for a routed (not forced) decision.
    */
-  private isSimpleRequest(context?: {
-    messageLength?: number;
-    conversationDepth?: number;
-  }): boolean {
-    if (!context) return false;
-    const shortMessage = (context.messageLength ?? 0) < 200;
-    const shallowConversation = (context.conversationDepth ?? 0) < 3;
-    return shortMessage && shallowConversation;
+  private countDecision(decision: RouteDecision): void {
+    const model =
+      decision.source === "fallback" ? decision.model : decision.model.replace(/^ollama\//, "");
+    this.state.decisionsCount++;
+    this.state.selectionsBySource[decision.source]++;
+    this.state.selectionsByModel[model] = (this.state.selectionsByModel[model] ?? 0) + 1;
   }
 
-  private decidePrimary(reason: string): RouteDecision {
-    this.state.decisionsCount++;
-    this.state.primarySelections++;
-    const decision: RouteDecision = {
-      model: `ollama/${this.config.primaryModel}`,
-      reason,
-      source: "primary",
-      gpuUtilization: this.state.gpuUtilization ?? undefined,
-      vramUsedMB: this.state.vramUsage?.usedMB,
-      vramTotalMB: this.state.vramUsage?.totalMB,
-      modelLoaded: this.state.primaryStatus.loaded,
-      timestamp: Date.now(),
+  /**
+   * An empty trace with the metrics the decision is about to use.
+   */
+  private newTrace(dryRun: boolean, complexity?: ComplexityScore, rule?: RoutingRule): RouteTrace {
+    return {
+      dryRun,
+      metrics: {
+        ollamaReachable: this.state.ollamaReachable,
+        lastHealthCheck: this.state.lastHealthCheck,
+        gpuUtilization: this.state.gpuUtilization ?? undefined,
+        vramUsedMB: this.state.vramUsage?.usedMB,
+        vramTotalMB: this.state.vramUsage?.totalMB,
+        gpuMemoryThreshold: this.config.gpuMemoryThreshold,
+        system: this.state.systemLoad ?? undefined,
+        hostPressure: this.hostPressure(),
+        complexity: complexity?.score,
+        complexityThreshold: this.config.complexityThreshold,
+        estimatedTokens: complexity?.features.estimatedTokens,
+      },
+      rule: rule ? describeRule(rule) : undefined,
+      steps: [],
+      candidates: [],
+      policy: [],
     };
+  }
+
+  /**
+   * Every check the router makes on a pool model, for decision traces.
+   */
+  private candidateChecks(
+    model: PoolModelStatus,
+    context: RouteContext | undefined,
+    neededTokens: number | undefined,
+    rule: RoutingRule | undefined
+  ): TraceCheck[] {
+    const checks: TraceCheck[] = [
+      {
+        check: "pulled",
+        passed: model.pulled,
+        detail: model.pulled ? `on ${model.pulledOn.join(", ")}` : "not on any reachable host",
+      },
+    ];
+    if (rule?.tiers) {
+      checks.push({
+        check: "rule tiers",
+        passed: rule.tiers.includes(model.tier),
+        detail: `rule ${rule.name} allows ${rule.tiers.join("/")}`,
+      });
+    }
+    if (neededTokens !== undefined) {
+      const ctx = model.contextWindow;
+      checks.push({
+        check: "context window",
+        passed: ctx === undefined || ctx >= neededTokens,
+        detail: ctx === undefined ? "unknown" : `${ctx} ${ctx >= neededTokens ? ">=" : "<"} ~${neededTokens} tokens needed`,
+      });
+    }
+    if (context?.role) {
+      checks.push({
+        check: "role",
+        passed: model.role === context.role,
+        detail: `${model.role} (wanted ${context.role})`,
+      });
+    }
+    const slow = this.slowReason(model);
+    const latency = this.deps.latency?.get(model.name);
+    checks.push({
+      check: "latency",
+      passed: !slow,
+      detail:
+        slow ??
+        (latency
+          ? `EWMA ${Math.round(latency.ewmaMs)}ms over ${latency.runs} runs, ${(latency.successRate * 100).toFixed(0)}% ok`
+          : "no runs yet"),
+    });
+    checks.push({
+      check: "VRAM fit",
+      passed: this.fitsGpu(model, []),
+      detail: model.fit ? describeFit(model.fit) : "unknown (no VRAM metrics)",
+    });
+    checks.push({
+      check: "loaded",
+      passed: model.loaded,
+      detail: model.loaded ? `on ${model.loadedOn.join(", ")}` : "cold, needs loading",
+    });
+    const bench = this.config.benchmarkPriors ? this.deps.benchmarks?.get(model.name) : undefined;
+    if (bench) {
+      checks.push({
+        check: "benchmark",
+        passed: true,
+        detail: `${bench.evalTokensPerSec} tok/s, TTFT ${bench.ttftMs}ms`,
+      });
+    }
+    return checks;
+  }
+
+  private recordDecision(decision: RouteDecision, context?: RouteContext): RouteDecision {
     this.state.lastDecision = decision;
+    for (const listener of this.decisionListeners) {
+      try {
+        listener(decision, context ?? {});
+      } catch {
+        // Listeners must never break routing
+      }
+    }
     return decision;
   }
 
-  private decideSidecar(reason: string): RouteDecision {
-    this.state.decisionsCount++;
-    this.state.sidecarSelections++;
-    const decision: RouteDecision = {
-      model: `ollama/${this.config.sidecarModel}`,
-      reason,
-      source: "sidecar",
+  /**
+   * Complexity score for a request: the one computed from the prompt when
+   * the caller supplied it, else one derived from message length and depth.
+   */
+  private scoreRequest(context?: RouteContext): ComplexityScore | undefined {
+    if (!context) return undefined;
+    if (context.complexity) return context.complexity;
+    if (context.messageLength === undefined && context.conversationDepth === undefined) {
+      return undefined;
+    }
+    return scoreFromLengths(context.messageLength ?? 0, context.conversationDepth ?? 0);
+  }
+
+  /**
+   * Is this a "simple" request the sidecar can handle?
+   * Simple = complexity score below `complexityThreshold`.
+   */
+  private isSimpleRequest(complexity?: ComplexityScore): boolean {
+    if (!complexity) return false;
+    return complexity.score < this.config.complexityThreshold;
+  }
+
+  /**
+   * Append the complexity score and its strongest signals to a reason.
+   */
+  private withComplexity(reason: string, context?: RouteContext): string {
+    const complexity = context?.complexity;
+    if (!complexity) return reason;
+    const cmp = complexity.score < this.config.complexityThreshold ? "<" : ">=";
+    const signals = complexity.signals.slice(0, 2).join("; ");
+    return `${reason} [complexity ${complexity.score.toFixed(2)} ${cmp} ${this.config.complexityThreshold.toFixed(2)}${signals ? `: ${signals}` : ""}]`;
+  }
+
+  private decideLocal(
+    model: PoolModelStatus,
+    reason: string,
+    context?: RouteContext,
+    notes: string[] = []
+  ): RouteDecision {
+    const host = this.cluster.pickHost(model.name);
+    if (host && this.state.hosts.length > 1) {
+      const hostNote = model.loadedOn.includes(host.name)
+        ? `on ${host.name}, already warm`
+        : `on ${host.name}, ${(host.spareCapacity * 100).toFixed(0)}% spare capacity`;
+      notes = [hostNote, ...notes];
+    }
+    if (model.fit && !model.loaded) {
+      notes = [...notes, `predicted ${describeFit(model.fit)}`];
+    }
+    return {
+      model: `ollama/${model.name}`,
+      reason: this.withComplexity(withNotes(reason, notes), context),
+      source: model.tier,
+      role: model.role,
+      host: host?.name,
+      complexity: context?.complexity?.score,
       gpuUtilization: this.state.gpuUtilization ?? undefined,
       vramUsedMB: this.state.vramUsage?.usedMB,
       vramTotalMB: this.state.vramUsage?.totalMB,
-      modelLoaded: this.state.sidecarStatus.loaded,
+      modelLoaded: model.loaded,
       timestamp: Date.now(),
     };
-    this.state.lastDecision = decision;
-    return decision;
   }
 
-  private decideFallback(reason: string): RouteDecision {
-    this.state.decisionsCount++;
-    this.state.fallbackSelections++;
+  private decideFallback(
+    reason: string,
+    context?: RouteContext,
+    notes: string[] = []
+  ): RouteDecision {
     const model = this.config.fallbackModel ?? "anthropic/claude-sonnet-4-5";
-    const decision: RouteDecision = {
+    return {
       model,
-      reason,
+      reason: this.withComplexity(withNotes(reason, notes), context),
       source: "fallback",
+      complexity: context?.complexity?.score,
       gpuUtilization: this.state.gpuUtilization ?? undefined,
       modelLoaded: false,
       timestamp: Date.now(),
     };
-    this.state.lastDecision = decision;
-    return decision;
   }
 }
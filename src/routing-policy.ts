@@ -0,0 +1,442 @@
+/**
+ * Declarative routing policy: an ordered list of rules evaluated top to
+ * bottom after session stickiness and routing rules.
+ *
+ * Each rule has optional conditions (`when`) over router state and request
+ * features, and an action:
+ * - pick: use the first candidate matching `select`; if none matches, the
+ *   rule is skipped
+ * - exclude: drop candidates matching `select` (model, tier, role, loaded)
+ *   for the rest of the policy
+ * - fallback: route to the remote fallback model
+ *
+ * When no rule picks a model, the request falls back. The built-in routing
+ * behavior ships as DEFAULT_ROUTING_POLICY.
+ *
+ * Reasons may use {threshold} (GPU memory threshold %), {model} (picked
+ * model), {primary} (first primary candidate), {primarySlowness} (why that
+ * primary is currently slow) and {pressure} (which host limits are exceeded).
+ */
+
+import type { ModelTier } from "./config.js";
+import type { ConfigFieldError } from "./config-schema.js";
+
+export type PolicyRange = {
+  min?: number;
+  max?: number;
+};
+
+export type PolicyConditions = {
+  /** At least one Ollama host is reachable */
+  reachable?: boolean;
+  /** VRAM usage is at or above gpuMemoryThreshold */
+  gpuOverloaded?: boolean;
+  /** VRAM used / total, 0.0-1.0 (never matches without VRAM metrics) */
+  vramRatio?: PolicyRange;
+  /** GPU utilization percent, 0-100 (never matches without GPU metrics) */
+  gpuUtilization?: PolicyRange;
+  /**
+   * This machine's RAM, swap or CPU is at or above its pressure threshold
+   * and the preferred sidecar runs here (sidecars on remote hosts are exempt)
+   */
+  hostPressure?: boolean;
+  /** System RAM in use / total, 0.0-1.0 */
+  ramUsedRatio?: PolicyRange;
+  /** Swap used / total, 0.0-1.0 (never matches without swap) */
+  swapUsedRatio?: PolicyRange;
+  /** Host CPU utilization percent, 0-100 */
+  cpuUtilization?: PolicyRange;
+  /** Complexity below complexityThreshold */
+  simple?: boolean;
+  complexity?: PolicyRange;
+  estimatedTokens?: PolicyRange;
+  messageLength?: PolicyRange;
+  role?: string;
+  /** Every primary is currently slow and a sidecar is not */
+  primariesSlow?: boolean;
+  /** Simple request and benchmarks don't show the primary is faster */
+  preferSidecar?: boolean;
+  /** This model is loaded on some host */
+  modelLoaded?: string;
+  /** This model is pulled on some reachable host */
+  modelPulled?: string;
+};
+
+export type CandidateSelector = {
+  model?: string;
+  tier?: ModelTier;
+  role?: string;
+  loaded?: boolean;
+  /** Predicted to fit in free VRAM (true when unknown) */
+  fitsGpu?: boolean;
+  /** Skip currently slow models, unless every candidate in the tier is slow */
+  notSlow?: boolean;
+  /** Prefer a loaded, not slow candidate; otherwise the first match */
+  preferLoaded?: boolean;
+};
+
+export type PolicyAction = "pick" | "exclude" | "fallback";
+
+export type PolicyRule = {
+  name: string;
+  when?: PolicyConditions;
+  action: PolicyAction;
+  select?: CandidateSelector;
+  reason?: string;
+};
+
+/**
+ * One condition checked against the current facts.
+ */
+export type ConditionResult = {
+  condition: string;
+  expected: string;
+  actual: string;
+  passed: boolean;
+};
+
+/**
+ * Router state and request features the conditions are evaluated against.
+ */
+export type PolicyFacts = {
+  reachable: boolean;
+  gpuOverloaded: boolean;
+  vramRatio?: number;
+  gpuUtilization?: number;
+  hostPressure: boolean;
+  ramUsedRatio?: number;
+  swapUsedRatio?: number;
+  cpuUtilization?: number;
+  simple: boolean;
+  complexity?: number;
+  estimatedTokens?: number;
+  messageLength?: number;
+  role?: string;
+  primariesSlow: boolean;
+  preferSidecar: boolean;
+  loadedModels: Set<string>;
+  pulledModels: Set<string>;
+};
+
+/**
+ * The built-in decision chain.
+ */
+export const DEFAULT_ROUTING_POLICY: PolicyRule[] = [
+  {
+    name: "unreachable",
+    when: { reachable: false },
+    action: "fallback",
+    reason: "Ollama is unreachable",
+  },
+  {
+    name: "loaded-primary",
+    when: { gpuOverloaded: false, primariesSlow: false },
+    action: "pick",
+    select: { tier: "primary", loaded: true, notSlow: true },
+    reason: "Primary model loaded and GPU has capacity",
+  },
+  {
+    name: "load-primary-benchmarked",
+    when: { gpuOverloaded: false, primariesSlow: false, simple: true, preferSidecar: false },
+    action: "pick",
+    select: { tier: "primary", fitsGpu: true },
+    reason: "Primary model benchmarked faster than the sidecar, loading",
+  },
+  {
+    name: "load-primary",
+    when: { gpuOverloaded: false, primariesSlow: false, simple: false },
+    action: "pick",
+    select: { tier: "primary", fitsGpu: true },
+    reason: "Primary model available, loading for complex request",
+  },
+  {
+    name: "host-pressure-primary",
+    when: { hostPressure: true, gpuOverloaded: false },
+    action: "pick",
+    select: { tier: "primary", fitsGpu: true },
+    reason: "Host under pressure: {pressure} - loading GPU primary instead of CPU sidecar",
+  },
+  {
+    name: "host-pressure",
+    when: { hostPressure: true },
+    action: "fallback",
+    reason: "Host under pressure: {pressure} - CPU sidecar avoided",
+  },
+  {
+    name: "sidecar-gpu-overloaded",
+    when: { gpuOverloaded: true },
+    action: "pick",
+    select: { tier: "sidecar", preferLoaded: true },
+    reason: "GPU VRAM above {threshold} - routing to CPU sidecar",
+  },
+  {
+    name: "sidecar-primaries-slow",
+    when: { primariesSlow: true },
+    action: "pick",
+    select: { tier: "sidecar", preferLoaded: true },
+    reason: "Primary {primary} currently slow ({primarySlowness}) - routing to CPU sidecar",
+  },
+  {
+    name: "sidecar-simple",
+    when: { preferSidecar: true },
+    action: "pick",
+    select: { tier: "sidecar", preferLoaded: true },
+    reason: "Simple request routed to fast CPU sidecar",
+  },
+  {
+    name: "loaded-sidecar",
+    action: "pick",
+    select: { tier: "sidecar", loaded: true, notSlow: true },
+    reason: "Sidecar already loaded - fast response path",
+  },
+  {
+    name: "any-primary",
+    action: "pick",
+    select: { tier: "primary" },
+    reason: "Primary model available with partial GPU offload",
+  },
+  {
+    name: "any-sidecar",
+    action: "pick",
+    select: { tier: "sidecar" },
+    reason: "Only sidecar model available",
+  },
+  {
+    name: "no-local",
+    action: "fallback",
+    reason: "No local models available",
+  },
+];
+
+const BOOLEAN_CONDITIONS = [
+  "reachable",
+  "gpuOverloaded",
+  "hostPressure",
+  "simple",
+  "primariesSlow",
+  "preferSidecar",
+];
+const RANGE_CONDITIONS = [
+  "vramRatio",
+  "gpuUtilization",
+  "ramUsedRatio",
+  "swapUsedRatio",
+  "cpuUtilization",
+  "complexity",
+  "estimatedTokens",
+  "messageLength",
+];
+const STRING_CONDITIONS = ["role", "modelLoaded", "modelPulled"];
+const BOOLEAN_SELECTORS = ["loaded", "fitsGpu", "notSlow", "preferLoaded"];
+const STRING_SELECTORS = ["model", "role"];
+const EXCLUDE_SELECTORS = ["model", "tier", "role", "loaded"];
+const ACTIONS: PolicyAction[] = ["pick", "exclude", "fallback"];
+
+/**
+ * Parse and check a policy from plugin config. Returns every problem found;
+ * the policy is only usable when there are no errors.
+ */
+export function parseRoutingPolicy(
+  raw: unknown,
+  path: string = "routingPolicy"
+): { policy: PolicyRule[]; errors: ConfigFieldError[] } {
+  const errors: ConfigFieldError[] = [];
+  const error = (field: string, message: string) => errors.push({ field, message });
+
+  if (!Array.isArray(raw)) {
+    error(path, "must be an array of rules");
+    return { policy: [], errors };
+  }
+  if (raw.length === 0) {
+    error(path, "must contain at least one rule");
+  }
+
+  const names = new Set<string>();
+  const policy: PolicyRule[] = [];
+  raw.forEach((item, index) => {
+    const at = `${path}[${index}]`;
+    if (!isObject(item)) {
+      error(at, "must be an object");
+      return;
+    }
+    for (const key of Object.keys(item)) {
+      if (!["name", "when", "action", "select", "reason"].includes(key)) {
+        error(`${at}.${key}`, "is not a known rule field");
+      }
+    }
+
+    const name = item.name === undefined ? `rule-${index + 1}` : item.name;
+    if (typeof name !== "string" || name.length === 0) {
+      error(`${at}.name`, "must be a non-empty string");
+    } else if (names.has(name)) {
+      error(`${at}.name`, `duplicate rule name "${name}"`);
+    } else {
+      names.add(name);
+    }
+
+    const action = item.action as PolicyAction;
+    if (!ACTIONS.includes(action)) {
+      error(`${at}.action`, `must be one of ${ACTIONS.map((a) => `"${a}"`).join(", ")}`);
+    }
+    if (item.reason !== undefined && typeof item.reason !== "string") {
+      error(`${at}.reason`, "must be a string");
+    }
+
+    if (item.when !== undefined) checkConditions(item.when, `${at}.when`, error);
+
+    if (item.select !== undefined) {
+      checkSelector(item.select, `${at}.select`, error);
+      if (action === "fallback") error(`${at}.select`, "is not used by fallback rules");
+    }
+    if (action === "exclude") {
+      if (!isObject(item.select) || Object.keys(item.select).length === 0) {
+        error(`${at}.select`, "exclude rules need a selector (it would drop every model)");
+      } else {
+        for (const key of Object.keys(item.select)) {
+          if (!EXCLUDE_SELECTORS.includes(key)) {
+            error(`${at}.select.${key}`, `exclude rules only use ${EXCLUDE_SELECTORS.join(", ")}`);
+          }
+        }
+      }
+    }
+
+    policy.push({
+      name: typeof name === "string" ? name : `rule-${index + 1}`,
+      when: item.when as PolicyConditions | undefined,
+      action,
+      select: item.select as CandidateSelector | undefined,
+      reason: item.reason as string | undefined,
+    });
+  });
+
+  return { policy: errors.length === 0 ? policy : [], errors };
+}
+
+/**
+ * Do all of a rule's conditions hold?
+ */
+export function conditionsMatch(when: PolicyConditions | undefined, facts: PolicyFacts): boolean {
+  return evaluateConditions(when, facts).every((c) => c.passed);
+}
+
+/**
+ * Each condition of a rule with the value it was checked against, for
+ * decision traces.
+ */
+export function evaluateConditions(
+  when: PolicyConditions | undefined,
+  facts: PolicyFacts
+): ConditionResult[] {
+  if (!when) return [];
+  const bare = (name: string) => name.replace(/^ollama\//, "");
+  const results: ConditionResult[] = [];
+  const check = (condition: string, expected: unknown, actual: unknown, passed: boolean) =>
+    results.push({ condition, expected: String(expected), actual: String(actual ?? "unknown"), passed });
+
+  for (const key of Object.keys(when) as (keyof PolicyConditions)[]) {
+    const expected = when[key];
+    if (expected === undefined) continue;
+    if (key === "modelLoaded" || key === "modelPulled") {
+      const model = bare(expected as string);
+      const set = key === "modelLoaded" ? facts.loadedModels : facts.pulledModels;
+      check(key, model, set.has(model), set.has(model));
+    } else if (typeof expected === "object") {
+      const range = expected as PolicyRange;
+      const value = facts[key as "vramRatio"];
+      check(key, formatRange(range), value, inRange(range, value));
+    } else {
+      const value = facts[key as "reachable" | "role"];
+      check(key, expected, value, value === expected);
+    }
+  }
+  return results;
+}
+
+/**
+ * Fill {placeholders} in a rule reason. Unknown placeholders are left as is.
+ */
+export function formatPolicyReason(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (whole, key: string) => vars[key] ?? whole);
+}
+
+function formatRange(range: PolicyRange): string {
+  if (range.min !== undefined && range.max !== undefined) return `${range.min}..${range.max}`;
+  if (range.min !== undefined) return `>= ${range.min}`;
+  return range.max !== undefined ? `<= ${range.max}` : "any";
+}
+
+function inRange(range: PolicyRange | undefined, value: number | undefined): boolean {
+  if (!range) return true;
+  if (value === undefined) return false;
+  return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+}
+
+function checkConditions(
+  when: unknown,
+  at: string,
+  error: (field: string, message: string) => void
+): void {
+  if (!isObject(when)) {
+    error(at, "must be an object");
+    return;
+  }
+  for (const [key, value] of Object.entries(when)) {
+    const field = `${at}.${key}`;
+    if (BOOLEAN_CONDITIONS.includes(key)) {
+      if (typeof value !== "boolean") error(field, "must be true or false");
+    } else if (RANGE_CONDITIONS.includes(key)) {
+      checkRange(value, field, error);
+    } else if (STRING_CONDITIONS.includes(key)) {
+      if (typeof value !== "string" || value.length === 0) error(field, "must be a non-empty string");
+    } else {
+      error(
+        field,
+        `is not a known condition (known: ${[...BOOLEAN_CONDITIONS, ...RANGE_CONDITIONS, ...STRING_CONDITIONS].join(", ")})`
+      );
+    }
+  }
+}
+
+function checkRange(value: unknown, at: string, error: (field: string, message: string) => void): void {
+  if (!isObject(value)) {
+    error(at, "must be an object like { \"min\": 0.5, \"max\": 0.9 }");
+    return;
+  }
+  for (const [key, bound] of Object.entries(value)) {
+    if (key !== "min" && key !== "max") {
+      error(`${at}.${key}`, "only min and max are allowed");
+    } else if (typeof bound !== "number" || !Number.isFinite(bound)) {
+      error(`${at}.${key}`, "must be a number");
+    }
+  }
+  if (typeof value.min === "number" && typeof value.max === "number" && value.min > value.max) {
+    error(at, `min ${value.min} is greater than max ${value.max}`);
+  }
+}
+
+function checkSelector(
+  select: unknown,
+  at: string,
+  error: (field: string, message: string) => void
+): void {
+  if (!isObject(select)) {
+    error(at, "must be an object");
+    return;
+  }
+  for (const [key, value] of Object.entries(select)) {
+    const field = `${at}.${key}`;
+    if (key === "tier") {
+      if (value !== "primary" && value !== "sidecar") error(field, 'must be "primary" or "sidecar"');
+    } else if (BOOLEAN_SELECTORS.includes(key)) {
+      if (typeof value !== "boolean") error(field, "must be true or false");
+    } else if (STRING_SELECTORS.includes(key)) {
+      if (typeof value !== "string" || value.length === 0) error(field, "must be a non-empty string");
+    } else {
+      error(field, `is not a known selector (known: tier, ${[...STRING_SELECTORS, ...BOOLEAN_SELECTORS].join(", ")})`);
+    }
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
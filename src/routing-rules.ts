@@ -0,0 +1,66 @@
+/**
+ * Matching of per-agent, per-channel and per-workspace routing rules
+ * against the context of a request.
+ */
+
+import type { RoutingRule } from "./config.js";
+
+export type RuleContext = {
+  agentId?: string;
+  /** Message provider, e.g. "discord" or "slack" */
+  channel?: string;
+  workspaceDir?: string;
+  sessionKey?: string;
+};
+
+/**
+ * First rule whose match fields all match the context.
+ */
+export function findRoutingRule(
+  rules: RoutingRule[],
+  context: RuleContext
+): RoutingRule | undefined {
+  return rules.find((rule) => {
+    const { agentId, channel, workspace, sessionKey } = rule.match;
+    return (
+      fieldMatches(agentId, context.agentId) &&
+      fieldMatches(channel, context.channel) &&
+      workspaceMatches(workspace, context.workspaceDir) &&
+      fieldMatches(sessionKey, context.sessionKey)
+    );
+  });
+}
+
+/**
+ * Short description of what a rule does, for decision reasons and status.
+ */
+export function describeRule(rule: RoutingRule): string {
+  const effects: string[] = [];
+  if (rule.model) effects.push(`model ${rule.model}`);
+  if (rule.tiers) effects.push(`${rule.tiers.join("/")} only`);
+  if (rule.role) effects.push(`role ${rule.role}`);
+  if (rule.allowFallback === false) effects.push("no remote fallback");
+  return effects.length > 0 ? `${rule.name}: ${effects.join(", ")}` : rule.name;
+}
+
+function fieldMatches(pattern: string | undefined, value: string | undefined): boolean {
+  if (pattern === undefined) return true;
+  if (value === undefined) return false;
+  return globToRegExp(pattern).test(value);
+}
+
+/**
+ * A workspace pattern also matches everything below that directory.
+ */
+function workspaceMatches(pattern: string | undefined, dir: string | undefined): boolean {
+  if (pattern === undefined) return true;
+  if (dir === undefined) return false;
+  const normalized = dir.replace(/\\/g, "/").replace(/\/+$/, "");
+  const base = pattern.replace(/\\/g, "/").replace(/\/+$/, "");
+  return globToRegExp(base).test(normalized) || globToRegExp(`${base}/*`).test(normalized);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`, "i");
+}
@@ -0,0 +1,254 @@
+/**
+ * Warm-up scheduler: runs the configured cron-style schedules once a minute,
+ * warming models ahead of expected use, unloading them when the day is over,
+ * and keeping models resident during keep-warm windows. With a usage
+ * predictor it also warms each model shortly before an hour in which it is
+ * usually routed to, with keep-alive lasting until the end of that hour.
+ */
+
+import type { PluginConfig, WarmSchedule } from "./config.js";
+import type { OllamaCluster } from "./ollama-cluster.js";
+import type { UsagePredictor } from "./usage-predictor.js";
+import { cronMatches, nextCronRun, parseCron, type CronExpression } from "./cron.js";
+
+export type ScheduledAction = {
+  schedule: string;
+  action: WarmSchedule["action"];
+  models: string[];
+  host?: string;
+  at: number;
+};
+
+export type ScheduleRecord = {
+  schedule: string;
+  action: WarmSchedule["action"];
+  model: string;
+  host: string;
+  success: boolean;
+  timestamp: number;
+};
+
+export type ScheduleError = {
+  schedule: string;
+  error: string;
+};
+
+type CompiledSchedule = WarmSchedule & { expr: CronExpression };
+
+const MAX_RECENT_RECORDS = 20;
+
+/** Re-send keep-alive for keep-warm models at least this often */
+const KEEP_WARM_REFRESH_MS = 5 * 60_000;
+
+export class WarmScheduler {
+  private cluster: OllamaCluster;
+  private config: PluginConfig;
+  private predictor: UsagePredictor | undefined;
+  private schedules: CompiledSchedule[] = [];
+  private invalid: ScheduleError[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private lastTickMinute = 0;
+  private lastKeepWarm = new Map<string, number>();
+  /** Predicted slot each model was last pre-warmed for */
+  private prewarmedSlot = new Map<string, number>();
+  private recentRecords: ScheduleRecord[] = [];
+  private listeners: ((record: ScheduleRecord) => void)[] = [];
+
+  constructor(cluster: OllamaCluster, config: PluginConfig, predictor?: UsagePredictor) {
+    this.cluster = cluster;
+    this.config = config;
+    this.predictor = predictor;
+    for (const schedule of config.schedules) {
+      try {
+        this.schedules.push({ ...schedule, expr: parseCron(schedule.cron) });
+      } catch (err) {
+        this.invalid.push({
+          schedule: schedule.name,
+          error: `${schedule.cron}: ${err instanceof Error ? err.message : err}`,
+        });
+      }
+    }
+  }
+
+  /**
+   * Schedules that were skipped because their cron expression is invalid.
+   */
+  get errors(): ScheduleError[] {
+    return this.invalid.map((e) => ({ ...e }));
+  }
+
+  get running(): boolean {
+    return this.timer !== null;
+  }
+
+  onAction(listener: (record: ScheduleRecord) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Start ticking at the top of every minute. Does nothing without schedules
+   * or predictive pre-warming.
+   */
+  start(): void {
+    if (this.timer) return;
+    if (this.schedules.length === 0 && !this.predictor?.enabled) return;
+    const arm = () => {
+      const delay = 60_000 - (Date.now() % 60_000);
+      this.timer = setTimeout(() => {
+        this.tick().catch(() => undefined);
+        arm();
+      }, delay);
+    };
+    arm();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Next run of each schedule and next predicted pre-warm of each pool
+   * model, soonest first.
+   */
+  upcoming(limit: number = 5, from: Date = new Date()): ScheduledAction[] {
+    const actions: ScheduledAction[] = [];
+    for (const schedule of this.schedules) {
+      const next = nextCronRun(schedule.expr, from);
+      if (!next) continue;
+      actions.push({
+        schedule: schedule.name,
+        action: schedule.action,
+        models: schedule.models,
+        host: schedule.host,
+        at: next.getTime(),
+      });
+    }
+    if (this.predictor?.enabled) {
+      const leadMs = this.config.prewarmLeadMinutes * 60_000;
+      for (const model of this.config.models) {
+        const next = this.predictor.nextLikely(model.name, new Date(from.getTime() + leadMs));
+        if (!next) continue;
+        actions.push({
+          schedule: predictedLabel(next.probability),
+          action: "warm",
+          models: [model.name],
+          at: next.slotStart - leadMs,
+        });
+      }
+    }
+    return actions.sort((a, b) => a.at - b.at).slice(0, limit);
+  }
+
+  /**
+   * Recent scheduled actions, newest first.
+   */
+  recent(): ScheduleRecord[] {
+    return this.recentRecords.map((r) => ({ ...r }));
+  }
+
+  /**
+   * Run every schedule that matches the given minute. Each minute runs once.
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    const minute = Math.floor(now.getTime() / 60_000);
+    if (minute === this.lastTickMinute) return;
+    this.lastTickMinute = minute;
+
+    for (const schedule of this.schedules) {
+      if (!cronMatches(schedule.expr, now)) continue;
+      if (schedule.action === "unload") {
+        await this.unload(schedule);
+      } else {
+        await this.warm(schedule, now.getTime());
+      }
+    }
+    await this.prewarm(now);
+  }
+
+  /**
+   * Warm models whose predicted busy hour starts within the lead time. Each
+   * model is warmed once per predicted hour.
+   */
+  private async prewarm(now: Date): Promise<void> {
+    if (!this.predictor?.enabled) return;
+    const target = new Date(now.getTime() + this.config.prewarmLeadMinutes * 60_000);
+    for (const entry of this.config.models) {
+      const forecast = this.predictor.forecast(entry.name, target);
+      if (forecast.probability < this.config.prewarmMinProbability) continue;
+      if (this.prewarmedSlot.get(forecast.model) === forecast.slotStart) continue;
+
+      const host = this.cluster.pickHost(forecast.model)?.name;
+      if (!host) continue;
+      this.prewarmedSlot.set(forecast.model, forecast.slotStart);
+
+      // Stay loaded until the predicted hour is over, then let it expire
+      const slotEnd = forecast.slotStart + 60 * 60_000;
+      const keepAlive = Math.ceil((slotEnd - now.getTime()) / 60_000);
+      const success = await this.cluster.warmModel(forecast.model, keepAlive, host);
+      this.record({
+        schedule: predictedLabel(forecast.probability),
+        action: "warm",
+        model: forecast.model,
+        host,
+        success,
+      });
+    }
+  }
+
+  private async warm(schedule: CompiledSchedule, now: number): Promise<void> {
+    const keepAlive = schedule.keepAliveMinutes ?? this.config.keepAliveMinutes;
+    for (const model of this.expandPoolModels(schedule.models)) {
+      const host = schedule.host ?? this.cluster.pickHost(model)?.name;
+      if (!host) continue;
+
+      if (schedule.action === "keep-warm") {
+        // Only re-send when the model dropped out or keep-alive is getting old
+        const key = `${host}\u0000${model}`;
+        const loaded = this.cluster.getClient(host)?.isModelLoaded(model) ?? false;
+        const last = this.lastKeepWarm.get(key) ?? 0;
+        if (loaded && now - last < KEEP_WARM_REFRESH_MS) continue;
+        this.lastKeepWarm.set(key, now);
+      }
+
+      const success = await this.cluster.warmModel(model, keepAlive, host);
+      this.record({ schedule: schedule.name, action: schedule.action, model, host, success });
+    }
+  }
+
+  private async unload(schedule: CompiledSchedule): Promise<void> {
+    const everything = schedule.models.includes("*");
+    for (const state of this.cluster.getHostStates()) {
+      if (!state.reachable) continue;
+      if (schedule.host && state.name !== schedule.host) continue;
+      for (const model of state.loadedModels) {
+        if (!everything && !schedule.models.includes(model)) continue;
+        const success = await this.cluster.unloadModel(model, state.name);
+        this.record({ schedule: schedule.name, action: "unload", model, host: state.name, success });
+      }
+    }
+  }
+
+  private expandPoolModels(models: string[]): string[] {
+    return models.includes("*") ? this.config.models.map((m) => m.name) : models;
+  }
+
+  private record(entry: Omit<ScheduleRecord, "timestamp">): void {
+    const record: ScheduleRecord = { ...entry, timestamp: Date.now() };
+    this.recentRecords.unshift(record);
+    this.recentRecords.length = Math.min(this.recentRecords.length, MAX_RECENT_RECORDS);
+    for (const listener of this.listeners) {
+      try {
+        listener(record);
+      } catch {
+        // Listeners must never break the scheduler
+      }
+    }
+  }
+}
+
+function predictedLabel(probability: number): string {
+  return `predicted ${Math.round(probability * 100)}%`;
+}
@@ -0,0 +1,103 @@
+/**
+ * Session affinity: remembers which model each conversation (keyed on
+ * AgentContext.sessionKey) was routed to, so the router can keep a session
+ * on one model instead of flapping between models from turn to turn.
+ * Sessions expire after `sessionTtlMin` without a turn.
+ */
+
+import type { PluginConfig } from "./config.js";
+import type { RouteDecision, RouteSource } from "./router.js";
+
+export type SessionAssignment = {
+  sessionKey: string;
+  /** Routed model id, e.g. "ollama/qwen2.5-coder:7b" */
+  model: string;
+  source: RouteSource;
+  host?: string;
+  /** When the session moved to its current model */
+  assignedAt: number;
+  lastSeenAt: number;
+  /** Turns on the current model */
+  turns: number;
+  switches: number;
+  lastSwitchReason?: string;
+};
+
+/** Oldest sessions are dropped beyond this many */
+const MAX_SESSIONS = 1000;
+
+export class SessionAffinity {
+  private config: PluginConfig;
+  private sessions = new Map<string, SessionAssignment>();
+
+  constructor(config: PluginConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Current assignment for a session, unless it has expired.
+   */
+  get(sessionKey: string, now: number = Date.now()): SessionAssignment | undefined {
+    const session = this.sessions.get(sessionKey);
+    if (!session) return undefined;
+    if (this.isExpired(session, now)) {
+      this.sessions.delete(sessionKey);
+      return undefined;
+    }
+    return { ...session };
+  }
+
+  /**
+   * Record the model a session was just routed to.
+   */
+  record(
+    sessionKey: string,
+    decision: RouteDecision,
+    switchReason?: string,
+    now: number = Date.now()
+  ): SessionAssignment {
+    const previous = this.get(sessionKey, now);
+    let session: SessionAssignment;
+    if (previous && previous.model === decision.model) {
+      session = { ...previous, host: decision.host, lastSeenAt: now, turns: previous.turns + 1 };
+    } else {
+      session = {
+        sessionKey,
+        model: decision.model,
+        source: decision.source,
+        host: decision.host,
+        assignedAt: now,
+        lastSeenAt: now,
+        turns: 1,
+        switches: previous ? previous.switches + 1 : 0,
+        lastSwitchReason: previous ? switchReason : undefined,
+      };
+    }
+
+    // Re-insert so Map order stays least-recently-seen first
+    this.sessions.delete(sessionKey);
+    this.sessions.set(sessionKey, session);
+    this.prune(now);
+    return { ...session };
+  }
+
+  /**
+   * Live sessions, most recently seen first.
+   */
+  list(now: number = Date.now()): SessionAssignment[] {
+    this.prune(now);
+    return [...this.sessions.values()].reverse().map((s) => ({ ...s }));
+  }
+
+  private prune(now: number): void {
+    for (const [key, session] of this.sessions) {
+      if (this.isExpired(session, now) || this.sessions.size > MAX_SESSIONS) {
+        this.sessions.delete(key);
+      }
+    }
+  }
+
+  private isExpired(session: SessionAssignment, now: number): boolean {
+    return now - session.lastSeenAt > this.config.sessionTtlMin * 60_000;
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Host RAM, swap and CPU load, sampled alongside GPU metrics.
+ *
+ * On Linux everything comes from /proc (meminfo, stat, loadavg); per-core
+ * utilization is the busy share of each core between two samples. Elsewhere
+ * node:os supplies load averages and per-core times (swap unknown). Available
+ * memory comes from vm_stat on macOS and os.freemem() on Windows; other
+ * platforms leave it unknown, since their free figure excludes reclaimable
+ * cache and would read as constant pressure.
+ *
+ * The CPU sidecar runs entirely on this host's RAM and cores, so a host that
+ * is swapping or CPU-saturated can't serve it at a useful speed.
+ */
+
+import { readFile } from "node:fs/promises";
+import { cpus, freemem, loadavg, platform, totalmem } from "node:os";
+import { join } from "node:path";
+import type { PluginConfig } from "./config.js";
+import { parseVmStatAvailableMB, runCommand } from "./gpu-detect.js";
+import type { CommandRunner } from "./gpu-metrics.js";
+
+export type SystemMetrics = {
+  memTotalMB: number;
+  /** Memory available for new work without swapping (null when unknown) */
+  memAvailableMB: number | null;
+  /** Swap totals (null when the platform doesn't report them) */
+  swapTotalMB: number | null;
+  swapUsedMB: number | null;
+  /** 1, 5 and 15 minute load averages */
+  loadAvg: [number, number, number];
+  cpuCount: number;
+  /** Busy percent across all cores since the previous sample (null on the first) */
+  cpuUtilization: number | null;
+  /** Busy percent per core since the previous sample (empty on the first) */
+  perCore: number[];
+  sampledAt: number;
+};
+
+/**
+ * The ratios routing decisions use, recorded with history entries so
+ * decisions can be replayed.
+ */
+export type SystemLoad = {
+  /** RAM in use (total minus available) / total, 0.0-1.0 */
+  ramUsedRatio?: number;
+  /** Swap used / total, 0.0-1.0 */
+  swapUsedRatio?: number;
+  /** CPU busy percent, 0-100 (load average per core when not yet measured) */
+  cpuUtilization?: number;
+};
+
+type PressureThresholds = Pick<
+  PluginConfig,
+  "ramPressureThreshold" | "swapPressureThreshold" | "cpuPressureThreshold"
+>;
+
+export type SystemSamplerOptions = {
+  /** Directory holding meminfo, stat and loadavg (default /proc) */
+  procRoot?: string;
+  /** Runs vm_stat on macOS */
+  run?: CommandRunner;
+  platform?: NodeJS.Platform;
+};
+
+type CpuTimes = { busy: number; total: number };
+
+const KB_PER_MB = 1024;
+
+export class SystemMetricsSampler {
+  private root: string;
+  private run: CommandRunner;
+  private os: NodeJS.Platform;
+  private previous: CpuTimes[] | null = null;
+
+  constructor(options: SystemSamplerOptions = {}) {
+    this.root = options.procRoot ?? "/proc";
+    this.run = options.run ?? runCommand;
+    this.os = options.platform ?? platform();
+  }
+
+  async sample(): Promise<SystemMetrics> {
+    const [meminfo, stat, load] = await Promise.all([
+      readProc(join(this.root, "meminfo")),
+      readProc(join(this.root, "stat")),
+      readProc(join(this.root, "loadavg")),
+    ]);
+
+    const memory = meminfo ? parseMeminfo(meminfo) : null;
+    const availableMB = memory ? memory.availableMB : await this.availableMB();
+    // Index 0 is the all-cores total, then one entry per core
+    const times = (stat && parseStat(stat)) || osCpuTimes();
+    const previous = this.previous;
+    const utilization = times.map((t, i) => busyPercent(previous?.[i], t));
+    this.previous = times;
+
+    const avg = load?.split(/\s+/).slice(0, 3).map(Number);
+    return {
+      memTotalMB: memory?.totalMB ?? Math.round(totalmem() / 1024 / 1024),
+      memAvailableMB: availableMB,
+      swapTotalMB: memory?.swapTotalMB ?? null,
+      swapUsedMB: memory?.swapUsedMB ?? null,
+      loadAvg:
+        avg && avg.length === 3 && avg.every(Number.isFinite)
+          ? (avg as [number, number, number])
+          : (loadavg() as [number, number, number]),
+      cpuCount: times.length - 1,
+      cpuUtilization: utilization[0],
+      perCore: previous ? utilization.slice(1).map((u) => u ?? 0) : [],
+      sampledAt: Date.now(),
+    };
+  }
+
+  /**
+   * Available memory without /proc/meminfo.
+   */
+  private async availableMB(): Promise<number | null> {
+    if (this.os === "win32") return Math.round(freemem() / 1024 / 1024);
+    if (this.os !== "darwin") return null;
+    const vmStat = await this.run("vm_stat");
+    return vmStat ? parseVmStatAvailableMB(vmStat) : null;
+  }
+}
+
+/**
+ * Reduce a sample to the ratios routing uses.
+ */
+export function systemLoad(metrics: SystemMetrics): SystemLoad {
+  return {
+    ramUsedRatio:
+      metrics.memTotalMB > 0 && metrics.memAvailableMB !== null
+        ? 1 - metrics.memAvailableMB / metrics.memTotalMB
+        : undefined,
+    swapUsedRatio:
+      metrics.swapTotalMB && metrics.swapUsedMB !== null
+        ? metrics.swapUsedMB / metrics.swapTotalMB
+        : undefined,
+    cpuUtilization:
+      metrics.cpuUtilization ??
+      (metrics.cpuCount > 0
+        ? Math.min(100, (metrics.loadAvg[0] / metrics.cpuCount) * 100)
+        : undefined),
+  };
+}
+
+/**
+ * Why the host is too loaded to run the CPU sidecar, or undefined when it
+ * has headroom (or nothing is known).
+ */
+export function describeSystemPressure(
+  load: SystemLoad | null,
+  thresholds: PressureThresholds
+): string | undefined {
+  if (!load) return undefined;
+  const pct = (ratio: number) => `${(ratio * 100).toFixed(0)}%`;
+  const reasons: string[] = [];
+  if (load.swapUsedRatio !== undefined && load.swapUsedRatio >= thresholds.swapPressureThreshold) {
+    reasons.push(`swap ${pct(load.swapUsedRatio)} used (threshold ${pct(thresholds.swapPressureThreshold)})`);
+  }
+  if (load.ramUsedRatio !== undefined && load.ramUsedRatio >= thresholds.ramPressureThreshold) {
+    reasons.push(`RAM ${pct(load.ramUsedRatio)} used (threshold ${pct(thresholds.ramPressureThreshold)})`);
+  }
+  if (
+    load.cpuUtilization !== undefined &&
+    load.cpuUtilization / 100 >= thresholds.cpuPressureThreshold
+  ) {
+    reasons.push(
+      `CPU ${load.cpuUtilization.toFixed(0)}% busy (threshold ${pct(thresholds.cpuPressureThreshold)})`
+    );
+  }
+  return reasons.length > 0 ? reasons.join(", ") : undefined;
+}
+
+function parseMeminfo(text: string): {
+  totalMB: number;
+  availableMB: number;
+  swapTotalMB: number;
+  swapUsedMB: number;
+} | null {
+  const kb: Record<string, number> = {};
+  for (const line of text.split("\n")) {
+    const match = line.match(/^(\w+):\s+(\d+)/);
+    if (match) kb[match[1]] = parseInt(match[2], 10);
+  }
+  if (kb.MemTotal === undefined) return null;
+  // Kernels before 3.14 don't report MemAvailable
+  const available = kb.MemAvailable ?? (kb.MemFree ?? 0) + (kb.Buffers ?? 0) + (kb.Cached ?? 0);
+  return {
+    totalMB: Math.round(kb.MemTotal / KB_PER_MB),
+    availableMB: Math.round(available / KB_PER_MB),
+    swapTotalMB: Math.round((kb.SwapTotal ?? 0) / KB_PER_MB),
+    swapUsedMB: Math.round(((kb.SwapTotal ?? 0) - (kb.SwapFree ?? 0)) / KB_PER_MB),
+  };
+}
+
+/**
+ * Cumulative busy and total jiffies from /proc/stat: the "cpu" line, then
+ * "cpuN" per core. iowait counts as idle; guest time is already in user.
+ */
+function parseStat(text: string): CpuTimes[] | null {
+  const times: CpuTimes[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.startsWith("cpu")) continue;
+    const [user, nice, system, idle, iowait, irq, softirq, steal] = line
+      .split(/\s+/)
+      .slice(1, 9)
+      .map((v) => parseInt(v, 10) || 0);
+    const total = user + nice + system + idle + iowait + irq + softirq + steal;
+    times.push({ busy: total - idle - iowait, total });
+  }
+  return times.length > 1 ? times : null;
+}
+
+function osCpuTimes(): CpuTimes[] {
+  const cores = cpus().map(({ times }) => {
+    const total = times.user + times.nice + times.sys + times.idle + times.irq;
+    return { busy: total - times.idle, total };
+  });
+  const all = cores.reduce(
+    (sum, c) => ({ busy: sum.busy + c.busy, total: sum.total + c.total }),
+    { busy: 0, total: 0 }
+  );
+  return [all, ...cores];
+}
+
+function busyPercent(before: CpuTimes | undefined, after: CpuTimes): number | null {
+  if (!before) return null;
+  const total = after.total - before.total;
+  if (total <= 0) return null;
+  return Math.round(((after.busy - before.busy) / total) * 1000) / 10;
+}
+
+async function readProc(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, "utf-8");
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Usage predictor: learns when each pool model tends to be routed to, by
+ * weekday and hour of day (with a per-agent breakdown), from the decision
+ * history. The probability of demand for a slot is the share of recent
+ * same-weekday dates on which the model was routed to during that hour.
+ *
+ * The scheduler uses it to pre-warm models shortly before expected demand,
+ * and agent_end uses it to shorten keep-alive when demand is unlikely.
+ */
+
+import type { PluginConfig } from "./config.js";
+
+export type UsageObservation = {
+  model: string;
+  timestamp: number;
+  agentId?: string;
+};
+
+export type DemandForecast = {
+  model: string;
+  /** Start of the predicted hour slot */
+  slotStart: number;
+  probability: number;
+  /** Agents that routed to the model in this slot, busiest first */
+  agents: string[];
+};
+
+type Slot = {
+  /** Local dates (YYYY-MM-DD) the model was used during this slot */
+  days: Set<string>;
+  agents: Map<string, number>;
+};
+
+/** A slot needs activity on at least this many dates before it predicts anything */
+const MIN_SLOT_DAYS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class UsagePredictor {
+  private config: PluginConfig;
+  private slots = new Map<string, Map<string, Slot>>();
+  private firstSeen: number | undefined;
+
+  constructor(config: PluginConfig) {
+    this.config = config;
+  }
+
+  get enabled(): boolean {
+    return this.config.predictiveWarm;
+  }
+
+  /**
+   * Learn from one routing decision to a local model.
+   */
+  observe(observation: UsageObservation): void {
+    const model = observation.model.replace(/^ollama\//, "");
+    const date = new Date(observation.timestamp);
+    const key = slotKey(date);
+    let modelSlots = this.slots.get(model);
+    if (!modelSlots) {
+      modelSlots = new Map();
+      this.slots.set(model, modelSlots);
+    }
+    let slot = modelSlots.get(key);
+    if (!slot) {
+      slot = { days: new Set(), agents: new Map() };
+      modelSlots.set(key, slot);
+    }
+    slot.days.add(dayKey(date));
+    const agent = observation.agentId ?? "(none)";
+    slot.agents.set(agent, (slot.agents.get(agent) ?? 0) + 1);
+    if (this.firstSeen === undefined || observation.timestamp < this.firstSeen) {
+      this.firstSeen = observation.timestamp;
+    }
+  }
+
+  /**
+   * Probability that the model is routed to during the hour containing `at`.
+   */
+  forecast(modelName: string, at: Date): DemandForecast {
+    const model = modelName.replace(/^ollama\//, "");
+    const slotStart = new Date(at.getFullYear(), at.getMonth(), at.getDate(), at.getHours());
+    const empty = { model, slotStart: slotStart.getTime(), probability: 0, agents: [] };
+
+    const slot = this.slots.get(model)?.get(slotKey(at));
+    if (!slot || this.firstSeen === undefined) return empty;
+
+    // Same-weekday dates inside the learning window, before the slot itself
+    const firstDay = new Date(this.firstSeen);
+    firstDay.setHours(0, 0, 0, 0);
+    const windowStart = Math.max(
+      firstDay.getTime(),
+      slotStart.getTime() - this.config.prewarmHistoryDays * DAY_MS
+    );
+    let dates = 0;
+    let active = 0;
+    for (let t = slotStart.getTime() - 7 * DAY_MS; t >= windowStart; t -= 7 * DAY_MS) {
+      dates++;
+      if (slot.days.has(dayKey(new Date(t)))) active++;
+    }
+    if (active < MIN_SLOT_DAYS) return empty;
+
+    return {
+      model,
+      slotStart: slotStart.getTime(),
+      probability: Math.min(1, active / dates),
+      agents: [...slot.agents.entries()].sort((a, b) => b[1] - a[1]).map(([agent]) => agent),
+    };
+  }
+
+  /**
+   * Is demand likely for the model during the hour containing `at`?
+   */
+  isLikely(modelName: string, at: Date): boolean {
+    return this.forecast(modelName, at).probability >= this.config.prewarmMinProbability;
+  }
+
+  /**
+   * Next hour slot (starting within `hours`) where demand is likely.
+   */
+  nextLikely(modelName: string, from: Date, hours: number = 24): DemandForecast | undefined {
+    const base = new Date(from.getFullYear(), from.getMonth(), from.getDate(), from.getHours());
+    for (let i = 1; i <= hours; i++) {
+      const at = new Date(base.getTime());
+      at.setHours(base.getHours() + i);
+      const forecast = this.forecast(modelName, at);
+      if (forecast.probability >= this.config.prewarmMinProbability) return forecast;
+    }
+    return undefined;
+  }
+
+  /**
+   * Keep-alive for a model that just finished a run: the configured value
+   * while demand is likely this hour or the next, else the shorter idle
+   * keep-alive so the model expires. Until some slot of the model has
+   * enough dates to forecast from, no data is not evidence of low demand,
+   * so the configured value is kept.
+   */
+  keepAliveMinutes(modelName: string, now: Date = new Date()): number {
+    const model = modelName.replace(/^ollama\//, "");
+    if (!this.enabled || !this.hasHistory(model)) return this.config.keepAliveMinutes;
+    const nextHour = new Date(now.getTime() + 60 * 60 * 1000);
+    if (this.isLikely(model, now) || this.isLikely(model, nextHour)) {
+      return this.config.keepAliveMinutes;
+    }
+    return Math.min(this.config.keepAliveMinutes, this.config.prewarmIdleKeepAliveMinutes);
+  }
+
+  /**
+   * Has any slot of the model been active on enough dates to forecast?
+   */
+  private hasHistory(model: string): boolean {
+    const modelSlots = this.slots.get(model);
+    if (!modelSlots) return false;
+    return [...modelSlots.values()].some((slot) => slot.days.size >= MIN_SLOT_DAYS);
+  }
+}
+
+function slotKey(date: Date): string {
+  return `${date.getDay()}:${date.getHours()}`;
+}
+
+function dayKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,164 @@
+/**
+ * VRAM fit estimator.
+ *
+ * Predicts where a model will land when Ollama loads it: fully on the GPU,
+ * split between GPU and system RAM (partial offload), or CPU-only. The
+ * estimate adds up weights (file size, or parameter count x quantization
+ * bits), the KV cache for the context length Ollama will allocate, and a
+ * fixed compute-buffer overhead, then compares that with the VRAM that is
+ * free once already-resident models are accounted for.
+ */
+
+import type { ModelDetails } from "./ollama-client.js";
+
+export type GpuPlacement = "full-gpu" | "partial" | "cpu";
+
+export type VramFitPrediction = {
+  placement: GpuPlacement;
+  requiredBytes: number;
+  weightsBytes: number;
+  kvCacheBytes: number;
+  overheadBytes: number;
+  availableBytes: number;
+  /** Fraction of the model expected on the GPU (0.0-1.0) */
+  gpuFraction: number;
+  /** Expected size_vram once loaded */
+  predictedVramBytes: number;
+  /** Context length the KV cache was sized for */
+  contextTokens: number;
+};
+
+export type VramFitInput = {
+  sizeBytes: number;
+  parameterSize?: string;
+  quantization?: string;
+  details?: ModelDetails;
+  /** size_vram of this model if already resident */
+  residentVramBytes: number;
+  gpuTotalBytes: number;
+  gpuUsedBytes: number;
+};
+
+/** Ollama's num_ctx when the Modelfile doesn't set one */
+const DEFAULT_NUM_CTX = 4096;
+
+/** CUDA/Metal compute buffers and runtime overhead on top of weights + KV */
+const BASE_OVERHEAD_BYTES = 384 * 1024 * 1024;
+
+/** Fraction of weights that must fit before Ollama bothers offloading layers */
+const MIN_PARTIAL_FRACTION = 0.1;
+
+/** Approximate bits per weight for common GGUF quantizations */
+const QUANT_BITS: Record<string, number> = {
+  F32: 32,
+  F16: 16,
+  BF16: 16,
+  Q8_0: 8.5,
+  Q6_K: 6.6,
+  Q5_K_M: 5.7,
+  Q5_K_S: 5.5,
+  Q5_0: 5.5,
+  Q4_K_M: 4.85,
+  Q4_K_S: 4.6,
+  Q4_0: 4.5,
+  Q3_K_L: 4.3,
+  Q3_K_M: 3.9,
+  Q3_K_S: 3.5,
+  Q2_K: 3.35,
+};
+
+/**
+ * Parse an Ollama parameter size like "7.6B" or "135M" into a parameter count.
+ */
+export function parseParameterCount(parameterSize?: string): number | undefined {
+  if (!parameterSize) return undefined;
+  const match = parameterSize.trim().match(/^([\d.]+)\s*([KMBT])?$/i);
+  if (!match) return undefined;
+  const scale: Record<string, number> = { K: 1e3, M: 1e6, B: 1e9, T: 1e12 };
+  const value = parseFloat(match[1]);
+  if (isNaN(value)) return undefined;
+  return value * (scale[(match[2] ?? "").toUpperCase()] ?? 1);
+}
+
+function estimateWeightsBytes(input: VramFitInput): number {
+  if (input.sizeBytes > 0) return input.sizeBytes;
+  const params = parseParameterCount(input.parameterSize);
+  if (!params) return 0;
+  const bits = QUANT_BITS[(input.quantization ?? "").toUpperCase()] ?? 4.85;
+  return (params * bits) / 8;
+}
+
+/**
+ * f16 KV cache: 2 (K and V) x layers x context x kv-width x 2 bytes, where
+ * kv-width shrinks with grouped-query attention (head_count_kv < head_count).
+ * Without architecture metadata, fall back to ~16KB per token per billion
+ * parameters, which matches typical GQA models.
+ */
+function estimateKvCacheBytes(input: VramFitInput, contextTokens: number): number {
+  const d = input.details;
+  if (d?.blockCount && d.embeddingLength) {
+    const headRatio =
+      d.headCount && d.headCountKv ? d.headCountKv / d.headCount : 1;
+    return 2 * d.blockCount * contextTokens * d.embeddingLength * headRatio * 2;
+  }
+  const params = parseParameterCount(input.parameterSize ?? d?.parameterSize) ?? 7e9;
+  return contextTokens * (params / 1e9) * 16 * 1024;
+}
+
+export function predictVramFit(input: VramFitInput): VramFitPrediction {
+  const contextTokens = input.details?.numCtx ?? DEFAULT_NUM_CTX;
+  const weightsBytes = estimateWeightsBytes(input);
+  const kvCacheBytes = estimateKvCacheBytes(input, contextTokens);
+  const overheadBytes = BASE_OVERHEAD_BYTES + Math.round(weightsBytes * 0.05);
+  const requiredBytes = weightsBytes + kvCacheBytes + overheadBytes;
+
+  // A resident model's own VRAM would be reused, so count it as available
+  const availableBytes = Math.max(
+    0,
+    input.gpuTotalBytes - input.gpuUsedBytes + input.residentVramBytes
+  );
+
+  let placement: GpuPlacement;
+  if (requiredBytes > 0 && requiredBytes <= availableBytes) {
+    placement = "full-gpu";
+  } else if (availableBytes >= weightsBytes * MIN_PARTIAL_FRACTION + overheadBytes) {
+    placement = "partial";
+  } else {
+    placement = "cpu";
+  }
+
+  const gpuFraction =
+    placement === "full-gpu"
+      ? 1
+      : placement === "partial"
+        ? Math.min(1, (availableBytes - overheadBytes) / Math.max(1, requiredBytes - overheadBytes))
+        : 0;
+  const predictedVramBytes =
+    placement === "full-gpu" ? requiredBytes : placement === "partial" ? availableBytes : 0;
+
+  return {
+    placement,
+    requiredBytes,
+    weightsBytes,
+    kvCacheBytes,
+    overheadBytes,
+    availableBytes,
+    gpuFraction,
+    predictedVramBytes,
+    contextTokens,
+  };
+}
+
+/**
+ * Short description for decision reasons, e.g. "partial offload 62%, needs 9.1GB / 5.6GB free".
+ */
+export function describeFit(fit: VramFitPrediction): string {
+  const gb = (bytes: number) => `${(bytes / 1024 ** 3).toFixed(1)}GB`;
+  const label =
+    fit.placement === "full-gpu"
+      ? "full GPU"
+      : fit.placement === "partial"
+        ? `partial offload ${(fit.gpuFraction * 100).toFixed(0)}%`
+        : "CPU-only";
+  return `${label}, needs ${gb(fit.requiredBytes)} / ${gb(fit.availableBytes)} free`;
+}
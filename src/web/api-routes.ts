@@ -1,10 +1,18 @@
 /**
- * HTTP API routes for the dashboard.
+ * HTTP API routes for the dashboard and the Prometheus metrics endpoint.
  */
 
 import type { PluginConfig } from "../config.js";
 import type { ModelRouter } from "../router.js";
-import type { OllamaClient } from "../ollama-client.js";
+import type { PullManager } from "../pull-manager.js";
+import type { EvictionManager } from "../eviction.js";
+import type { SessionAffinity } from "../session-affinity.js";
+import type { BenchmarkRunner } from "../benchmark.js";
+import type { WarmScheduler } from "../scheduler.js";
+import type { OllamaCluster } from "../ollama-cluster.js";
+import { parseHistoryQuery, type DecisionHistory } from "../history.js";
+import { METRICS_CONTENT_TYPE, renderMetrics } from "../metrics.js";
+import { describeSystemPressure } from "../system-metrics.js";
 
 type HttpRequest = {
   method?: string;
@@ -19,39 +27,65 @@ type HttpResponse = {
 
 export function createStatusApiHandler(
   router: ModelRouter,
-  client: OllamaClient,
-  config: PluginConfig
+  config: PluginConfig,
+  pulls: PullManager,
+  eviction: EvictionManager,
+  sessions: SessionAffinity,
+  benchmarks: BenchmarkRunner,
+  scheduler: WarmScheduler
 ) {
   return async (_req: HttpRequest, res: HttpResponse): Promise<void> => {
     const state = router.getState();
-    const health = client.health;
 
     const data = {
       ollamaReachable: state.ollamaReachable,
-      ollamaVersion: health.version,
-      ollamaHost: config.ollamaHost,
-      primaryModel: {
-        ...state.primaryStatus,
-        configName: config.primaryModel,
-      },
-      sidecarModel: {
-        ...state.sidecarStatus,
-        configName: config.sidecarModel,
-      },
+      hosts: state.hosts,
+      healthTransitions: state.healthTransitions,
+      models: state.models,
       fallbackModel: config.fallbackModel,
       gpu: {
         utilization: state.gpuUtilization,
         vramUsedMB: state.vramUsage?.usedMB ?? null,
         vramTotalMB: state.vramUsage?.totalMB ?? null,
+        aggregation: config.gpuAggregation,
+        device: config.gpuDevice,
+        threshold: config.gpuMemoryThreshold,
+        devices: state.gpus,
+        sampledAt: state.gpuSampledAt || null,
+      },
+      system: state.system && {
+        ...state.system,
+        pressure: describeSystemPressure(state.systemLoad, config) ?? null,
       },
       routing: {
         autoRoute: config.autoRoute,
         totalDecisions: state.decisionsCount,
-        primarySelections: state.primarySelections,
-        sidecarSelections: state.sidecarSelections,
-        fallbackSelections: state.fallbackSelections,
+        selectionsBySource: state.selectionsBySource,
+        selectionsByModel: state.selectionsByModel,
         lastDecision: state.lastDecision ?? null,
       },
+      pulls: pulls.list(),
+      eviction: {
+        enabled: config.evictionEnabled,
+        pinnedModels: config.pinnedModels,
+        recent: eviction.recent(),
+      },
+      sessions: {
+        enabled: config.sessionStickiness,
+        ttlMin: config.sessionTtlMin,
+        active: sessions.list(),
+      },
+      benchmarks: {
+        priors: config.benchmarkPriors,
+        run: benchmarks.current(),
+        results: benchmarks.list(),
+      },
+      schedule: {
+        running: scheduler.running,
+        upcoming: scheduler.upcoming(),
+        recent: scheduler.recent(),
+        errors: scheduler.errors,
+      },
       lastHealthCheck: state.lastHealthCheck,
     };
 
@@ -75,3 +109,33 @@ export function createRefreshApiHandler(router: ModelRouter) {
     );
   };
 }
+
+export function createMetricsHandler(
+  router: ModelRouter,
+  cluster: OllamaCluster,
+  config: PluginConfig
+) {
+  return async (_req: HttpRequest, res: HttpResponse): Promise<void> => {
+    res.writeHead(200, { "Content-Type": METRICS_CONTENT_TYPE });
+    res.end(renderMetrics(router.getState(), cluster, config));
+  };
+}
+
+export function createHistoryApiHandler(history: DecisionHistory) {
+  return async (req: HttpRequest, res: HttpResponse): Promise<void> => {
+    const page = await history.query(parseHistoryQuery(requestQuery(req)));
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(page));
+  };
+}
+
+/**
+ * Query parameters from the pre-parsed `query` object, or from the raw URL.
+ */
+function requestQuery(req: HttpRequest): Record<string, string> {
+  if (req.query) return req.query;
+  if (!req.url) return {};
+  const search = new URL(req.url, "http://localhost").searchParams;
+  return Object.fromEntries(search.entries());
+}
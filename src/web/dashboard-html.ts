@@ -21,6 +21,7 @@ export function getDashboardHtml(): string {
     .status-dot { width: 10px; height: 10px; border-radius: 50%; display: inline-block; }
     .status-dot.online { background: #3fb950; }
     .status-dot.offline { background: #f85149; }
+    .status-dot.degraded, .status-dot.recovering { background: #d29922; }
     .status-dot.loaded { background: #3fb950; box-shadow: 0 0 6px #3fb950; }
     .status-dot.unloaded { background: #8b949e; }
     .metric { margin: 4px 0; }
@@ -75,49 +76,143 @@ export function getDashboardHtml(): string {
       const el = document.getElementById('dashboard');
       el.innerHTML = '';
 
-      // Ollama Status Card
-      el.innerHTML += renderCard('Ollama', [
-        statusLine('Status', data.ollamaReachable ? 'Online' : 'OFFLINE', data.ollamaReachable ? 'online' : 'offline'),
-        metric('Version', data.ollamaVersion || '?'),
-        metric('Endpoint', data.ollamaHost),
-      ]);
+      // Ollama Host Cards
+      for (const h of data.hosts) {
+        el.innerHTML += renderCard('Ollama: ' + h.name, [
+          statusLine('Status', h.health.state.toUpperCase(), h.health.state === 'healthy' ? 'online' : h.health.state === 'down' ? 'offline' : h.health.state),
+          h.health.lastError && h.health.state !== 'healthy' ? metric('Last error', h.health.lastError) : '',
+          h.health.state === 'down' && h.health.nextProbeAt ? metric('Next probe', new Date(h.health.nextProbeAt).toLocaleTimeString()) : '',
+          h.warmBreaker.state !== 'closed' ? metric('Warm-up breaker', h.warmBreaker.state.toUpperCase()) : '',
+          metric('Version', h.version || '?'),
+          metric('Endpoint', h.url),
+          h.reachable ? metric('Loaded', h.loadedModels.length ? h.loadedModels.join(', ') : 'none') : '',
+          h.reachable ? metric('Spare capacity', Math.round(h.spareCapacity * 100) + '%') + bar(100 - h.spareCapacity * 100) : '',
+        ]);
+      }
 
-      // GPU Card
+      // GPU Card (combined per gpuAggregation, then each GPU when there are several)
       if (data.gpu.vramTotalMB) {
         const vramPct = (data.gpu.vramUsedMB / data.gpu.vramTotalMB * 100);
+        const devices = data.gpu.devices || [];
         el.innerHTML += renderCard('GPU', [
           metric('VRAM', data.gpu.vramUsedMB + 'MB / ' + data.gpu.vramTotalMB + 'MB'),
           bar(vramPct),
           data.gpu.utilization !== null ? metric('Compute', data.gpu.utilization + '%') + bar(data.gpu.utilization) : '',
+          devices.length > 1 ? metric('Aggregation', data.gpu.aggregation === 'device' ? 'GPU ' + data.gpu.device : data.gpu.aggregation) : '',
+        ].concat(devices.length > 1 ? devices.map((g) =>
+          g.vramTotalMB
+            ? metric('GPU ' + g.index + (g.name ? ' (' + g.name + ')' : ''), g.vramUsedMB + 'MB / ' + g.vramTotalMB + 'MB'
+                + (g.utilization !== null ? ', ' + g.utilization + '% compute' : ''))
+              + bar(g.vramUsedMB / g.vramTotalMB * 100)
+            : metric('GPU ' + g.index, 'no VRAM reading')) : []));
+      }
+
+      // Host Card (RAM, swap and CPU the sidecar runs on)
+      if (data.system) {
+        const s = data.system;
+        const ramUsed = s.memAvailableMB !== null ? s.memTotalMB - s.memAvailableMB : null;
+        el.innerHTML += renderCard('Host', [
+          s.pressure ? statusLine('Pressure', s.pressure, 'offline') : statusLine('Pressure', 'none', 'online'),
+          ramUsed !== null
+            ? metric('RAM', ramUsed + 'MB / ' + s.memTotalMB + 'MB') + bar(s.memTotalMB ? ramUsed / s.memTotalMB * 100 : 0)
+            : metric('RAM', s.memTotalMB + 'MB (usage unknown)'),
+          s.swapTotalMB ? metric('Swap', s.swapUsedMB + 'MB / ' + s.swapTotalMB + 'MB') + bar(s.swapUsedMB / s.swapTotalMB * 100) : '',
+          s.cpuUtilization !== null ? metric('CPU', s.cpuUtilization + '%') + bar(s.cpuUtilization) : '',
+          metric('Load', s.loadAvg.map((l) => l.toFixed(2)).join(' / ') + ' (' + s.cpuCount + ' cores)'),
         ]);
       }
 
-      // Primary Model Card
-      const pm = data.primaryModel;
-      el.innerHTML += renderCard('Primary Model', [
-        '<span class="model-tag primary">PRIMARY</span> ' + pm.name,
-        statusLine('Status', pm.pulled ? (pm.loaded ? 'LOADED' : 'Pulled, unloaded') : 'NOT PULLED', pm.loaded ? 'loaded' : 'unloaded'),
-        pm.vramBytes > 0 ? metric('VRAM allocated', Math.round(pm.vramBytes / 1024 / 1024) + 'MB') : '',
-        pm.parameterSize ? metric('Parameters', pm.parameterSize) : '',
-      ]);
+      // Model Pool Cards (primary tier first, then by priority)
+      const pool = data.models.slice().sort((a, b) =>
+        a.tier === b.tier ? a.priority - b.priority : (a.tier === 'primary' ? -1 : 1));
+      for (const m of pool) {
+        el.innerHTML += renderCard(m.name, [
+          '<span class="model-tag ' + m.tier + '">' + m.tier.toUpperCase() + '</span> <span class="metric-label">' + m.role + ', priority ' + m.priority + '</span>',
+          statusLine('Status', m.pulled ? (m.loaded ? 'LOADED' : 'Pulled, unloaded') : 'NOT PULLED', m.loaded ? 'loaded' : 'unloaded'),
+          m.fit
+            ? metric('VRAM predicted / actual', Math.round(m.fit.predictedVramBytes / 1048576) + 'MB / '
+                + (m.loaded ? Math.round(m.vramBytes / 1048576) + 'MB' : '-') + ' (' + m.fit.placement + ')')
+            : (m.vramBytes > 0 ? metric('VRAM allocated', Math.round(m.vramBytes / 1024 / 1024) + 'MB') : ''),
+          m.parameterSize ? metric('Parameters', m.parameterSize) : '',
+          m.contextWindow ? metric('Context window', m.contextWindow + ' tokens') : '',
+          m.latency ? metric('Run time EWMA / p50 / p95', (m.latency.ewmaMs / 1000).toFixed(1) + 's / ' + (m.latency.p50Ms / 1000).toFixed(1) + 's / ' + (m.latency.p95Ms / 1000).toFixed(1) + 's') : '',
+          m.latency ? metric('Success rate', Math.round(m.latency.successRate * 100) + '% (' + m.latency.runs + ' runs)') : '',
+          m.pulledOn.length ? metric('Hosts', m.pulledOn.map((h) => m.loadedOn.includes(h) ? h + ' (warm)' : h).join(', ')) : '',
+          metric('Selections', (data.routing.selectionsByModel[m.name] || 0)),
+        ]);
+      }
 
-      // Sidecar Model Card
-      const sm = data.sidecarModel;
-      el.innerHTML += renderCard('Sidecar Model', [
-        '<span class="model-tag sidecar">SIDECAR</span> ' + sm.name,
-        statusLine('Status', sm.pulled ? (sm.loaded ? 'LOADED' : 'Pulled, unloaded') : 'NOT PULLED', sm.loaded ? 'loaded' : 'unloaded'),
-        sm.parameterSize ? metric('Parameters', sm.parameterSize) : '',
-      ]);
+      // Model Pulls Card
+      if (data.pulls && data.pulls.length) {
+        el.innerHTML += renderCard('Model Pulls', data.pulls.map((p) =>
+          metric(p.model + ' @ ' + p.host, p.status === 'pulling'
+            ? p.percent.toFixed(1) + '% (' + Math.round(p.completedBytes / 1048576) + ' / ' + Math.round(p.totalBytes / 1048576) + 'MB, ' + p.statusText + ')'
+            : p.status === 'failed' ? 'FAILED: ' + p.error : 'done')
+          + (p.status === 'pulling' ? progressBar(p.percent) : '')));
+      }
+
+      // Eviction Card
+      const ev = data.eviction;
+      if (ev) {
+        el.innerHTML += renderCard('VRAM Eviction', [
+          metric('Enabled', ev.enabled ? 'ON' : 'OFF'),
+          metric('Pinned', ev.pinnedModels.length ? ev.pinnedModels.join(', ') : 'none'),
+          ev.recent.length ? '<div class="decision-log">' + ev.recent.map((e) =>
+            '<div class="entry">' + new Date(e.timestamp).toLocaleTimeString() + ' ' + e.model + ' @ ' + e.host
+            + ' (' + Math.round(e.vramBytes / 1048576) + 'MB) ' + (e.success ? e.reason : 'FAILED') + '</div>').join('') + '</div>' : '',
+        ]);
+      }
+
+      // Schedule Card
+      const sched = data.schedule;
+      if (sched && (sched.upcoming.length || sched.errors.length)) {
+        el.innerHTML += renderCard('Warm-up Schedule', [
+          ...sched.upcoming.map((n) => metric(new Date(n.at).toLocaleString(), n.action + ' ' + n.models.join(', ') + (n.host ? ' @ ' + n.host : '') + ' (' + n.schedule + ')')),
+          ...sched.errors.map((e) => metric('Invalid ' + e.schedule, e.error)),
+          sched.recent.length ? '<div class="decision-log">' + sched.recent.map((r) =>
+            '<div class="entry">' + new Date(r.timestamp).toLocaleTimeString() + ' ' + r.action + ' ' + r.model + ' @ ' + r.host
+            + (r.success ? '' : ' FAILED') + '</div>').join('') + '</div>' : '',
+        ]);
+      }
+
+      // Benchmarks Card
+      const bench = data.benchmarks;
+      if (bench && (bench.results.length || (bench.run && bench.run.status === 'running'))) {
+        el.innerHTML += renderCard('Benchmarks' + (bench.priors ? ' (routing priors)' : ''), [
+          bench.run && bench.run.status === 'running'
+            ? metric('Running', bench.run.results.length + '/' + bench.run.models.length + (bench.run.current ? ', measuring ' + bench.run.current : ''))
+            : '',
+          ...bench.results.map((b) => metric(b.model + ' @ ' + b.host, b.error ? 'FAILED: ' + b.error
+            : 'load ' + (b.loadMs / 1000).toFixed(1) + 's' + (b.cold ? ' (cold)' : '') + ', TTFT ' + b.ttftMs + 'ms, prompt '
+              + b.promptTokensPerSec + ' tok/s, eval ' + b.evalTokensPerSec + ' tok/s')),
+        ]);
+      }
+
+      // Sessions Card
+      const ss = data.sessions;
+      if (ss && ss.enabled && ss.active.length) {
+        el.innerHTML += renderCard('Sticky Sessions (' + ss.active.length + ')', ['<div class="decision-log">' + ss.active.slice(0, 10).map((s) =>
+          '<div class="entry">' + s.sessionKey + ': ' + s.model + ' (' + s.turns + ' turns'
+          + (s.lastSwitchReason ? ', switched ' + s.switches + 'x: ' + s.lastSwitchReason : '') + ')</div>').join('') + '</div>']);
+      }
+
+      // Health Transitions Card
+      if (data.healthTransitions && data.healthTransitions.length) {
+        el.innerHTML += renderCard('Host Health', ['<div class="decision-log">' + data.healthTransitions.map((t) =>
+          '<div class="entry">' + new Date(t.timestamp).toLocaleTimeString() + ' ' + t.host + ': ' + t.from + ' &rarr; ' + t.to
+          + ' (' + t.reason + ')</div>').join('') + '</div>']);
+      }
 
       // Routing Stats Card
       const r = data.routing;
       el.innerHTML += renderCard('Routing', [
         metric('Auto-route', r.autoRoute ? 'ON' : 'OFF'),
         metric('Total decisions', r.totalDecisions),
-        metric('Primary selections', r.primarySelections),
-        metric('Sidecar selections', r.sidecarSelections),
-        metric('Fallback selections', r.fallbackSelections),
-        r.lastDecision ? '<br>' + metric('Last', r.lastDecision.model + ' (' + r.lastDecision.reason + ')') : '',
+        metric('Primary selections', r.selectionsBySource.primary),
+        metric('Sidecar selections', r.selectionsBySource.sidecar),
+        metric('Fallback selections', r.selectionsBySource.fallback),
+        data.fallbackModel ? metric('Fallback model', data.fallbackModel) : '',
+        r.lastDecision ? '<br>' + metric('Last', r.lastDecision.model + (r.lastDecision.host ? ' @ ' + r.lastDecision.host : '') + ' (' + r.lastDecision.reason + ')') : '',
       ]);
     }
 
@@ -138,6 +233,10 @@ export function getDashboardHtml(): string {
       return '<div class="bar"><div class="bar-fill ' + cls + '" style="width:' + Math.min(pct, 100) + '%"></div></div>';
     }
 
+    function progressBar(pct) {
+      return '<div class="bar"><div class="bar-fill ok" style="width:' + Math.min(pct, 100) + '%"></div></div>';
+    }
+
     refresh();
     setInterval(refresh, 10000);
   </script>
@@ -0,0 +1,48 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { resolvePluginConfig } from "../src/config.js";
+import { loadConfigSchema } from "../src/config-schema.js";
+import { RuntimeConfig } from "../src/config-store.js";
+
+describe("RuntimeConfig.load", () => {
+  const schema = loadConfigSchema();
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "mlo-config-"));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function loadWith(text: string) {
+    await writeFile(join(dir, "config-overrides.json"), text);
+    const config = resolvePluginConfig({});
+    const errors = new RuntimeConfig(config, {}, schema, dir).load();
+    return { config, errors };
+  }
+
+  for (const [label, text] of [
+    ["corrupt", "{ not json"],
+    ["null", "null"],
+    ["array", "[1, 2]"],
+  ]) {
+    it(`ignores a ${label} overrides file`, async () => {
+      const { config, errors } = await loadWith(text);
+      assert.equal(errors.length, 1);
+      assert.equal(errors[0].field, "config-overrides.json");
+      assert.match(errors[0].message, /unreadable, ignored/);
+      assert.equal(config.keepAliveMinutes, resolvePluginConfig({}).keepAliveMinutes);
+    });
+  }
+
+  it("applies saved overrides", async () => {
+    const { config, errors } = await loadWith(JSON.stringify({ keepAliveMinutes: 45 }));
+    assert.deepEqual(errors, []);
+    assert.equal(config.keepAliveMinutes, 45);
+  });
+});
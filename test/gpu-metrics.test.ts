@@ -0,0 +1,196 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  AmdSysfsProvider,
+  AppleIoregProvider,
+  NvidiaSmiProvider,
+  RocmSmiProvider,
+  selectGpuMetricsProvider,
+  type CommandRunner,
+} from "../src/gpu-metrics.js";
+
+/** Answers each command whose text contains a key with that key's output */
+const fixtureRunner =
+  (outputs: Record<string, string>): CommandRunner =>
+  async (cmd) => {
+    const key = Object.keys(outputs).find((k) => cmd.includes(k));
+    return key === undefined ? null : outputs[key];
+  };
+
+const NVIDIA_SMI = [
+  "0, GPU-6c1a7f2e-0000-0000-0000-000000000000, NVIDIA GeForce RTX 4090, 37, 18211, 24564",
+  "1, GPU-9b3d11aa-0000-0000-0000-000000000000, NVIDIA RTX A4000, [N/A], 512, 16376",
+].join("\n");
+
+// rocm-smi --showuse --showmeminfo vram --showuniqueid --json (ROCm 6.x)
+const ROCM_SMI = JSON.stringify({
+  card0: {
+    "GPU use (%)": "12",
+    "VRAM Total Memory (B)": "25753026560",
+    "VRAM Total Used Memory (B)": "8589934592",
+    "Unique ID": "0x7f3c2d1e00a1b2c3",
+  },
+  card1: {
+    "GPU use (%)": "N/A",
+    "VRAM Total Memory (B)": "17163091968",
+    "VRAM Total Used Memory (B)": "268435456",
+    "Unique ID": "N/A",
+  },
+  system: { "Driver version": "6.8.5" },
+});
+
+const IOREG = `+-o AGXAcceleratorG14X  <class AGXAcceleratorG14X, id 0x1000003c4, registered, matched, active, busy 0 (0 ms), retain 93>
+    {
+      "model" = "Apple M2 Pro"
+      "PerformanceStatistics" = {"In use system memory"=6442450944,"Alloc system memory"=9663676416,"Device Utilization %"=23,"Renderer Utilization %"=21}
+    }`;
+
+describe("NvidiaSmiProvider", () => {
+  it("parses one device per CSV line", async () => {
+    const devices = await new NvidiaSmiProvider(fixtureRunner({ "nvidia-smi": NVIDIA_SMI })).sample();
+    assert.deepEqual(devices, [
+      {
+        index: 0,
+        uuid: "GPU-6c1a7f2e-0000-0000-0000-000000000000",
+        name: "NVIDIA GeForce RTX 4090",
+        utilization: 37,
+        vramUsedMB: 18211,
+        vramTotalMB: 24564,
+      },
+      {
+        index: 1,
+        uuid: "GPU-9b3d11aa-0000-0000-0000-000000000000",
+        name: "NVIDIA RTX A4000",
+        utilization: null,
+        vramUsedMB: 512,
+        vramTotalMB: 16376,
+      },
+    ]);
+  });
+
+  it("reports nothing when nvidia-smi fails", async () => {
+    assert.deepEqual(await new NvidiaSmiProvider(fixtureRunner({})).sample(), []);
+  });
+});
+
+describe("RocmSmiProvider", () => {
+  it("parses one device per card, skipping non-card keys", async () => {
+    const devices = await new RocmSmiProvider(fixtureRunner({ "rocm-smi": ROCM_SMI })).sample();
+    assert.deepEqual(devices, [
+      {
+        index: 0,
+        uuid: "0x7f3c2d1e00a1b2c3",
+        name: "card0",
+        utilization: 12,
+        vramUsedMB: 8192,
+        vramTotalMB: 24560,
+      },
+      {
+        index: 1,
+        uuid: undefined,
+        name: "card1",
+        utilization: null,
+        vramUsedMB: 256,
+        vramTotalMB: 16368,
+      },
+    ]);
+  });
+
+  it("reports nothing when rocm-smi fails or prints something else", async () => {
+    assert.deepEqual(await new RocmSmiProvider(fixtureRunner({})).sample(), []);
+    const garbled = fixtureRunner({ "rocm-smi": "ERROR: GPU[0] : Unable to read" });
+    assert.deepEqual(await new RocmSmiProvider(garbled).sample(), []);
+  });
+
+  it("is selected on Linux for an AMD GPU without readable sysfs", async () => {
+    const provider = await selectGpuMetricsProvider(
+      [{ name: "AMD GPU", vendor: "AMD", vramMB: 24560, vramBytes: 24560 * 1024 * 1024 }],
+      {
+        run: fixtureRunner({ "rocm-smi": ROCM_SMI }),
+        sysfsRoot: join(tmpdir(), "mlo-no-such-drm"),
+        platform: "linux",
+      }
+    );
+    assert.equal(provider?.name, "rocm-smi");
+  });
+});
+
+describe("AmdSysfsProvider", () => {
+  let root: string;
+
+  const card = async (name: string, files: Record<string, string>) => {
+    const device = join(root, name, "device");
+    await mkdir(device, { recursive: true });
+    for (const [file, content] of Object.entries(files)) {
+      await writeFile(join(device, file), `${content}\n`);
+    }
+  };
+
+  before(async () => {
+    root = await mkdtemp(join(tmpdir(), "mlo-sysfs-"));
+    await card("card1", {
+      vendor: "0x1002",
+      mem_info_vram_used: String(4 * 1024 ** 3),
+      mem_info_vram_total: String(16 * 1024 ** 3),
+      gpu_busy_percent: "58",
+      unique_id: "a1b2c3d4e5f60718",
+    });
+    // Intel iGPU and a connector entry are ignored
+    await card("card0", { vendor: "0x8086" });
+    await mkdir(join(root, "card1-DP-1"));
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("reads VRAM and busy percent for amdgpu cards only", async () => {
+    assert.deepEqual(await new AmdSysfsProvider(root).sample(), [
+      {
+        index: 1,
+        uuid: "a1b2c3d4e5f60718",
+        name: "card1",
+        utilization: 58,
+        vramUsedMB: 4096,
+        vramTotalMB: 16384,
+      },
+    ]);
+  });
+
+  it("reports nothing without a drm directory", async () => {
+    assert.deepEqual(await new AmdSysfsProvider(join(root, "missing")).sample(), []);
+  });
+
+  it("is selected on Linux when no vendor tool answers", async () => {
+    const provider = await selectGpuMetricsProvider([], {
+      run: fixtureRunner({}),
+      sysfsRoot: root,
+      platform: "linux",
+    });
+    assert.equal(provider?.name, "amdgpu-sysfs");
+  });
+});
+
+describe("AppleIoregProvider", () => {
+  it("reads GPU memory and utilization, with physical RAM as the total", async () => {
+    const run = fixtureRunner({ ioreg: IOREG, "hw.memsize": "34359738368" });
+    assert.deepEqual(await new AppleIoregProvider(run).sample(), [
+      {
+        index: 0,
+        name: "Apple M2 Pro",
+        utilization: 23,
+        vramUsedMB: 6144,
+        vramTotalMB: 32768,
+      },
+    ]);
+  });
+
+  it("is selected on macOS", async () => {
+    const run = fixtureRunner({ ioreg: IOREG, "hw.memsize": "34359738368" });
+    const provider = await selectGpuMetricsProvider([], { run, platform: "darwin" });
+    assert.equal(provider?.name, "ioreg");
+  });
+});
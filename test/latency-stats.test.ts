@@ -0,0 +1,50 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { resolvePluginConfig } from "../src/config.js";
+import { LatencyTracker } from "../src/latency-stats.js";
+
+const MIN = 60_000;
+const config = resolvePluginConfig({});
+
+/** Ten usual 2s runs, then a burst of 10s runs ending at `end` */
+function slowBurst(tracker: LatencyTracker, model: string, end: number): void {
+  for (let i = 0; i < 10; i++) tracker.record(model, 2000, true, end - (20 - i) * MIN);
+  for (let i = 0; i < 5; i++) tracker.record(model, 10_000, true, end - (4 - i) * MIN);
+}
+
+describe("LatencyTracker", () => {
+  it("flags a model whose recent runs are well above its usual time", () => {
+    const tracker = new LatencyTracker(config);
+    const end = Date.now();
+    slowBurst(tracker, "qwen:7b", end);
+    assert.match(tracker.slowReason("qwen:7b", end) ?? "", /recent .* vs usual 2\.0s/);
+  });
+
+  it("makes a slow model eligible again after a quiet spell without runs", () => {
+    const tracker = new LatencyTracker(config);
+    const end = Date.now();
+    slowBurst(tracker, "qwen:7b", end);
+
+    assert.ok(tracker.slowReason("qwen:7b", end + config.latencyRecoveryMin * MIN));
+    assert.equal(tracker.slowReason("qwen:7b", end + 4 * config.latencyRecoveryMin * MIN), undefined);
+    const stats = tracker.get("qwen:7b", end + 4 * config.latencyRecoveryMin * MIN)!;
+    assert.ok(stats.ewmaMs < stats.p50Ms * config.latencySlowdownRatio);
+  });
+
+  it("lets a failing model's success rate recover", () => {
+    const tracker = new LatencyTracker(config);
+    const end = Date.now();
+    for (let i = 0; i < 6; i++) tracker.record("phi3:mini", undefined, false, end - (5 - i) * MIN);
+    assert.match(tracker.slowReason("phi3:mini", end) ?? "", /success rate/);
+    assert.equal(tracker.slowReason("phi3:mini", end + 5 * config.latencyRecoveryMin * MIN), undefined);
+  });
+
+  it("folds a run after a gap into the recovered average", () => {
+    const tracker = new LatencyTracker(config);
+    const end = Date.now();
+    slowBurst(tracker, "qwen:7b", end);
+    const later = end + 5 * config.latencyRecoveryMin * MIN;
+    tracker.record("qwen:7b", 2500, true, later);
+    assert.equal(tracker.slowReason("qwen:7b", later), undefined);
+  });
+});
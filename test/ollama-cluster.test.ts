@@ -0,0 +1,52 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { OllamaCluster } from "../src/ollama-cluster.js";
+import { startOllamaStub, type OllamaStub } from "./ollama-stub.js";
+
+describe("OllamaCluster.pickHost", () => {
+  const stubs: OllamaStub[] = [];
+
+  before(async () => {
+    // One of three slots taken on a and b, c idle
+    stubs.push(await startOllamaStub(["qwen2.5:7b", "llama3:8b", "mistral:7b", "gemma2:9b"], ["llama3:8b"]));
+    stubs.push(await startOllamaStub(["qwen2.5:7b", "llama3:8b", "gemma2:9b"], ["qwen2.5:7b"]));
+    stubs.push(await startOllamaStub(["qwen2.5:7b", "mistral:7b"]));
+  });
+
+  after(async () => {
+    await Promise.all(stubs.map((s) => s.close()));
+  });
+
+  const cluster = async (extra: string[] = []) => {
+    const c = new OllamaCluster([
+      ...["a", "b", "c"].map((name, i) => ({ name, url: stubs[i].url, maxLoadedModels: 3 })),
+      // Nothing listens on the discard port
+      ...extra.map((name) => ({ name, url: "http://127.0.0.1:9", maxLoadedModels: 3 })),
+    ]);
+    await c.checkHealth();
+    return c;
+  };
+
+  it("prefers the host where the model is already loaded", async () => {
+    const c = await cluster();
+    assert.equal(c.pickHost("qwen2.5:7b")?.name, "b");
+    assert.equal(c.pickHost("llama3:8b")?.name, "a");
+  });
+
+  it("prefers spare capacity among hosts where the model is cold", async () => {
+    const c = await cluster();
+    assert.equal(c.pickHost("mistral:7b")?.name, "c");
+  });
+
+  it("falls back to configuration order on equal capacity", async () => {
+    const c = await cluster();
+    assert.equal(c.pickHost("gemma2:9b")?.name, "a");
+  });
+
+  it("skips unreachable hosts and hosts without the model", async () => {
+    const c = await cluster(["down"]);
+    assert.equal(c.getHostStates().find((h) => h.name === "down")?.reachable, false);
+    assert.equal(c.pickHost("phi3:mini"), undefined);
+    assert.equal(c.pickHost("mistral:7b")?.name, "c");
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Minimal stand-in for an Ollama server: /api/version, /api/tags and /api/ps
+ * answer from fixed model lists.
+ */
+
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type OllamaStub = {
+  url: string;
+  close: () => Promise<void>;
+};
+
+export async function startOllamaStub(pulled: string[], loaded: string[] = []): Promise<OllamaStub> {
+  const server: Server = createServer((req, res) => {
+    res.setHeader("content-type", "application/json");
+    const model = (name: string) => ({
+      name,
+      model: name,
+      size: 4e9,
+      digest: `sha256:${name}`,
+      details: { parameter_size: "7B", quantization_level: "Q4_K_M" },
+    });
+    switch (req.url) {
+      case "/api/version":
+        res.end(JSON.stringify({ version: "0.5.0" }));
+        return;
+      case "/api/tags":
+        res.end(JSON.stringify({ models: pulled.map(model) }));
+        return;
+      case "/api/ps":
+        res.end(JSON.stringify({ models: loaded.map((name) => ({ ...model(name), size_vram: 4e9 })) }));
+        return;
+      default:
+        res.statusCode = 404;
+        res.end("{}");
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
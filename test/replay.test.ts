@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { resolvePluginConfig } from "../src/config.js";
+import type { HistoryEntry } from "../src/history.js";
+import { parseReplayRecords, recordsFromHistory, replayDecisions } from "../src/replay.js";
+
+const config = resolvePluginConfig({
+  models: [
+    { name: "qwen:7b", tier: "primary" },
+    { name: "qwen:0.5b", tier: "sidecar" },
+  ],
+});
+
+const health = { ollamaReachable: true, pulled: ["qwen:7b", "qwen:0.5b"], loaded: ["qwen:7b"] };
+
+describe("parseReplayRecords", () => {
+  it("rejects a complexity without a score and features", () => {
+    const { records, errors } = parseReplayRecords([{ context: { complexity: {} }, health }]);
+    assert.equal(records.length, 0);
+    assert.match(errors[0], /records\[0\]\.context\.complexity/);
+  });
+
+  it("drops context fields of the wrong type", () => {
+    const { records, errors } = parseReplayRecords([
+      { context: { forceModel: 42, role: "coder", messageLength: "long" }, health },
+    ]);
+    assert.deepEqual(errors, []);
+    assert.equal(records[0].context.forceModel, undefined);
+    assert.equal(records[0].context.role, "coder");
+    assert.equal(records[0].context.messageLength, undefined);
+  });
+
+  it("replays a record with a supplied complexity", async () => {
+    const { records } = parseReplayRecords([
+      {
+        context: { complexity: { score: 0.1, features: { estimatedTokens: 20 } } },
+        health,
+      },
+    ]);
+    const report = await replayDecisions(records, config, config);
+    assert.equal(report.changed.length, 0);
+  });
+});
+
+describe("recordsFromHistory", () => {
+  it("carries the recorded complexity score", () => {
+    const entry: HistoryEntry = {
+      model: "ollama/qwen:0.5b",
+      reason: "Simple request",
+      source: "sidecar",
+      complexity: 0.12,
+      modelLoaded: false,
+      timestamp: 1,
+      context: { messageLength: 40 },
+      health,
+    };
+    const { records } = recordsFromHistory([entry]);
+    assert.equal(records[0].complexity, 0.12);
+  });
+});
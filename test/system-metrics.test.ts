@@ -0,0 +1,74 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SystemMetricsSampler, systemLoad } from "../src/system-metrics.js";
+
+const VM_STAT = `Mach Virtual Memory Statistics: (page size of 16384 bytes)
+Pages free:                               65536.
+Pages active:                            400000.
+Pages inactive:                          196608.
+Pages speculative:                         2000.
+Pages wired down:                        150000.`;
+
+describe("SystemMetricsSampler", () => {
+  let proc: string;
+  let missing: string;
+
+  before(async () => {
+    proc = await mkdtemp(join(tmpdir(), "mlo-proc-"));
+    missing = join(proc, "missing");
+    await writeFile(
+      join(proc, "meminfo"),
+      [
+        "MemTotal:       32768000 kB",
+        "MemFree:         1024000 kB",
+        "MemAvailable:   16384000 kB",
+        "SwapTotal:       8192000 kB",
+        "SwapFree:        6144000 kB",
+      ].join("\n")
+    );
+    await writeFile(join(proc, "loadavg"), "1.50 1.20 0.90 2/512 4242\n");
+  });
+
+  after(async () => {
+    await rm(proc, { recursive: true, force: true });
+  });
+
+  it("reads MemAvailable and swap from /proc/meminfo", async () => {
+    const metrics = await new SystemMetricsSampler({ procRoot: proc }).sample();
+    assert.equal(metrics.memTotalMB, 32000);
+    assert.equal(metrics.memAvailableMB, 16000);
+    assert.equal(metrics.swapUsedMB, 2000);
+    assert.deepEqual(metrics.loadAvg, [1.5, 1.2, 0.9]);
+    const load = systemLoad(metrics);
+    assert.equal(load.ramUsedRatio, 0.5);
+    assert.equal(load.swapUsedRatio, 0.25);
+  });
+
+  it("counts free and inactive pages as available on macOS", async () => {
+    const sampler = new SystemMetricsSampler({
+      procRoot: missing,
+      platform: "darwin",
+      run: async (cmd) => (cmd.startsWith("vm_stat") ? VM_STAT : null),
+    });
+    const metrics = await sampler.sample();
+    // (65536 + 196608) pages of 16KB
+    assert.equal(metrics.memAvailableMB, 4096);
+  });
+
+  it("leaves RAM usage unknown when nothing reports available memory", async () => {
+    const darwin = new SystemMetricsSampler({
+      procRoot: missing,
+      platform: "darwin",
+      run: async () => null,
+    });
+    const other = new SystemMetricsSampler({ procRoot: missing, platform: "freebsd" });
+    for (const sampler of [darwin, other]) {
+      const metrics = await sampler.sample();
+      assert.equal(metrics.memAvailableMB, null);
+      assert.equal(systemLoad(metrics).ramUsedRatio, undefined);
+    }
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { resolvePluginConfig } from "../src/config.js";
+import { UsagePredictor } from "../src/usage-predictor.js";
+
+const config = resolvePluginConfig({});
+
+/** 09:30 local time on the Monday `weeks` weeks after 2026-01-05 */
+const monday = (weeks: number, hour = 9) => new Date(2026, 0, 5 + weeks * 7, hour, 30);
+
+describe("UsagePredictor.keepAliveMinutes", () => {
+  it("keeps the configured keep-alive for a model with no forecastable history", () => {
+    const predictor = new UsagePredictor(config);
+    predictor.observe({ model: "ollama/qwen:7b", timestamp: monday(0).getTime() });
+    assert.equal(predictor.forecast("qwen:7b", monday(0, 14)).probability, 0);
+    assert.equal(predictor.keepAliveMinutes("qwen:7b", monday(0, 14)), config.keepAliveMinutes);
+    assert.equal(predictor.keepAliveMinutes("phi3:mini", monday(0, 14)), config.keepAliveMinutes);
+  });
+
+  it("shortens keep-alive outside the hours a learned model is used", () => {
+    const predictor = new UsagePredictor(config);
+    for (let week = 0; week < 3; week++) {
+      predictor.observe({ model: "qwen:7b", timestamp: monday(week).getTime() });
+    }
+    assert.equal(predictor.keepAliveMinutes("qwen:7b", monday(3)), config.keepAliveMinutes);
+    assert.equal(
+      predictor.keepAliveMinutes("qwen:7b", monday(3, 14)),
+      config.prewarmIdleKeepAliveMinutes
+    );
+  });
+});